@@ -0,0 +1,232 @@
+//////////////////////////////////////////////////////////////////////
+// Submodule for payload compression & checksums
+// Deflate & gzip use NodeJS' `zlib` where available, else the WHATWG `CompressionStream` in the async API. The `lz`
+// codec is implemented here for environments with neither.
+import { SerdeDecodeError } from './errors'
+import Reader from './reader'
+import { iterateChunks, WebReadableStream } from './stream'
+import Writer from './writer'
+
+/** IDs of the compression codecs as written to the header. */
+export const CODECS = {
+  deflate: 1,
+  gzip: 2,
+  lz: 3,
+} as const;
+export type Codec = keyof typeof CODECS;
+
+/** IDs of the checksum algorithms as written to the header. */
+export const CHECKSUMS = {
+  crc32: 1,
+} as const;
+export type Checksum = keyof typeof CHECKSUMS;
+
+/** Size of the trailer of each checksum algorithm in bytes. */
+export const CHECKSUM_SIZE: Record<Checksum, number> = {
+  crc32: 4,
+};
+
+/** Minimal structural type of a WHATWG `CompressionStream` or `DecompressionStream`. */
+interface WebTransformStream {
+  readable: WebReadableStream;
+  writable: {
+    getWriter(): {
+      write(chunk: Uint8Array): Promise<void>;
+      close(): Promise<void>;
+    };
+  };
+}
+type WebTransformStreamConstructor = new (format: 'deflate' | 'gzip') => WebTransformStream;
+
+const LZ_MIN_MATCH = 4;
+const LZ_MAX_MATCH = 0x7F + LZ_MIN_MATCH;
+const LZ_MAX_LITERALS = 0x80;
+const LZ_HASH_BITS = 16;
+
+let CRC32_TABLE: Uint32Array | undefined;
+
+export function crc32(bytes: Uint8Array) {
+  const table = CRC32_TABLE ??= buildCrc32Table();
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < bytes.length; ++i) {
+    crc = table[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+export function checksum(algorithm: Checksum, bytes: Uint8Array) {
+  switch (algorithm) {
+    case 'crc32': return crc32(bytes);
+    default: throw new Error(`Unsupported checksum algorithm: ${algorithm}`);
+  }
+}
+
+/** Compress `bytes` synchronously. Deflate & gzip require NodeJS' `zlib`; use `compressAsync` elsewhere. */
+export function compress(codec: Codec, bytes: Uint8Array): Uint8Array {
+  if (codec === 'lz') return lzCompress(bytes);
+  
+  const zlib = getZlib();
+  if (!zlib)
+    throw new Error(`Codec ${codec} requires zlib in the synchronous API, use serializeAsync instead`);
+  return new Uint8Array(codec === 'gzip' ? zlib.gzipSync(bytes) : zlib.deflateSync(bytes));
+}
+
+/** Decompress `bytes` synchronously, failing if the result would exceed `maxBytes`. `offset` is the position of
+ * `bytes` within the payload, reported by errors.
+ */
+export function decompress(codec: Codec, bytes: Uint8Array, maxBytes = Infinity, offset = 0): Uint8Array {
+  if (codec === 'lz') return lzDecompress(bytes, maxBytes, offset);
+  
+  const zlib = getZlib();
+  if (!zlib)
+    throw new Error(`Codec ${codec} requires zlib in the synchronous API, use deserializeAsync instead`);
+  
+  const options = isFinite(maxBytes) ? { maxOutputLength: maxBytes } : {};
+  try {
+    return new Uint8Array(codec === 'gzip' ? zlib.gunzipSync(bytes, options) : zlib.inflateSync(bytes, options));
+  } catch (err: any) {
+    throw new SerdeDecodeError(`Failed to decompress ${codec} payload: ${err.message}`, offset);
+  }
+}
+
+/** Compress `bytes`, falling back to `CompressionStream` if `zlib` is unavailable. */
+export async function compressAsync(codec: Codec, bytes: Uint8Array): Promise<Uint8Array> {
+  if (codec === 'lz' || getZlib()) return compress(codec, bytes);
+  return transform(getWebStream('CompressionStream', codec), bytes, Infinity, 0);
+}
+
+/** Decompress `bytes`, falling back to `DecompressionStream` if `zlib` is unavailable. */
+export async function decompressAsync(codec: Codec, bytes: Uint8Array, maxBytes = Infinity, offset = 0): Promise<Uint8Array> {
+  if (codec === 'lz' || getZlib()) return decompress(codec, bytes, maxBytes, offset);
+  return transform(getWebStream('DecompressionStream', codec), bytes, maxBytes, offset);
+}
+
+/** Compress `bytes` with a simple LZ77 codec: the varint uncompressed length followed by tokens. A token byte below
+ * 0x80 is followed by `token + 1` literal bytes. Any other token copies `(token & 0x7F) + 4` bytes from the output,
+ * starting a varint distance back.
+ */
+export function lzCompress(bytes: Uint8Array) {
+  const writer = new Writer({ grow: Math.max(1024, bytes.length >> 1) });
+  const table = new Int32Array(1 << LZ_HASH_BITS).fill(-1);
+  writer.writeVarint(bytes.length);
+  
+  let literals = 0;
+  const flush = (end: number) => {
+    while (literals < end) {
+      const count = Math.min(LZ_MAX_LITERALS, end - literals);
+      writer.writeByte(count - 1);
+      writer.writeBytes(bytes.subarray(literals, literals + count));
+      literals += count;
+    }
+  };
+  
+  let i = 0;
+  while (i + LZ_MIN_MATCH <= bytes.length) {
+    const key = bytes[i] | bytes[i+1] << 8 | bytes[i+2] << 16 | bytes[i+3] << 24;
+    const slot = Math.imul(key, 0x9E3779B1) >>> (32 - LZ_HASH_BITS);
+    const candidate = table[slot];
+    table[slot] = i;
+    
+    let length = 0;
+    if (candidate >= 0) {
+      while (length < LZ_MAX_MATCH && i + length < bytes.length && bytes[candidate + length] === bytes[i + length])
+        ++length;
+    }
+    
+    if (length >= LZ_MIN_MATCH) {
+      flush(i);
+      writer.writeByte(0x80 | (length - LZ_MIN_MATCH));
+      writer.writeVarint(i - candidate);
+      i += length;
+      literals = i;
+    } else {
+      ++i;
+    }
+  }
+  
+  flush(bytes.length);
+  return writer.compress().buffer;
+}
+
+export function lzDecompress(bytes: Uint8Array, maxBytes = Infinity, offset = 0) {
+  const reader = new Reader(bytes);
+  const length = reader.readVarint();
+  if (length > maxBytes)
+    throw new SerdeDecodeError(`Decompressed payload of ${length} bytes exceeds maxBytes of ${maxBytes}`, offset);
+  
+  const result = new Uint8Array(length);
+  let cursor = 0;
+  while (cursor < length) {
+    const token = reader.readByte();
+    if (token < 0x80) {
+      const count = token + 1;
+      if (cursor + count > length)
+        throw new SerdeDecodeError('LZ literals exceed the decompressed length', offset + reader.tell() - 1);
+      result.set(bytes.subarray(reader.advance(count), reader.tell()), cursor);
+      cursor += count;
+    }
+    else {
+      const count = (token & 0x7F) + LZ_MIN_MATCH;
+      const distance = reader.readVarint();
+      if (!distance || distance > cursor || cursor + count > length)
+        throw new SerdeDecodeError('Invalid LZ match', offset + reader.tell());
+      // byte by byte as matches may overlap with their own output
+      for (let i = 0; i < count; ++i, ++cursor) {
+        result[cursor] = result[cursor - distance];
+      }
+    }
+  }
+  return result;
+}
+
+async function transform(stream: WebTransformStream, bytes: Uint8Array, maxBytes: number, offset: number) {
+  // errors surface through the readable side, which must be consumed concurrently to avoid backpressure deadlocks
+  const writer = stream.writable.getWriter();
+  writer.write(bytes).catch(() => {});
+  writer.close().catch(() => {});
+  
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    for await (const chunk of iterateChunks(stream.readable)) {
+      size += chunk.length;
+      if (size > maxBytes)
+        throw new SerdeDecodeError(`Decompressed payload exceeds maxBytes of ${maxBytes}`, offset);
+      chunks.push(chunk);
+    }
+  } catch (err: any) {
+    if (err instanceof SerdeDecodeError) throw err;
+    throw new SerdeDecodeError(`Failed to transform payload: ${err.message}`, offset);
+  }
+  
+  const result = new Uint8Array(size);
+  chunks.reduce((cursor, chunk) => (result.set(chunk, cursor), cursor + chunk.length), 0);
+  return result;
+}
+
+function getWebStream(name: 'CompressionStream' | 'DecompressionStream', codec: 'deflate' | 'gzip') {
+  const con: WebTransformStreamConstructor | undefined = (globalThis as any)[name];
+  if (!con)
+    throw new Error(`Codec ${codec} requires either zlib or ${name}`);
+  return new con(codec);
+}
+
+function getZlib(): typeof import('zlib') | undefined {
+  try {
+    return typeof require === 'function' ? require('zlib') : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function buildCrc32Table() {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; ++n) {
+    let c = n;
+    for (let k = 0; k < 8; ++k) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+}
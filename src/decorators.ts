@@ -0,0 +1,111 @@
+//////////////////////////////////////////////////////////////////////
+// Submodule for class decorators
+// Decorated classes are collected in a registry from which `Serde.prototype.setDecorated` registers subprotocols.
+// Requires the `experimentalDecorators` compiler option.
+import { SERDE, SUBSERDE } from './types'
+import type { DeserializeContext, SubProtocolOptions } from './types'
+import { setEntry } from './util'
+
+export type Constructor<T = any> = abstract new (...args: any[]) => T;
+
+export interface SerializableOptions<T = any> extends SubProtocolOptions {
+  /** Create the instance to restore persisted properties onto. Defaults to `Object.create(prototype)`. */
+  factory?: () => T;
+  /** Register the class as a variant of `subprotocol`, so that a class hierarchy can share one subprotocol. */
+  variant?: string;
+}
+
+export interface SerializableClass<T = any> extends SerializableOptions<T> {
+  subprotocol: string;
+}
+
+const registry = new Map<Constructor, SerializableClass>();
+/** Properties explicitly marked with `@field()`, per prototype. */
+const fields = new WeakMap<object, string[]>();
+/** Properties marked with `@transient()`, per prototype. */
+const transients = new WeakMap<object, string[]>();
+
+/** Class decorator which injects the `[SERDE]` property into the class' prototype & registers the class for
+ * `Serde.prototype.setDecorated`.
+ */
+export function serializable(subprotocol: string, options: SerializableOptions = {}) {
+  return <C extends Constructor>(target: C) => {
+    Object.defineProperty(target.prototype, SERDE, {
+      value: subprotocol,
+      writable: true,
+      configurable: true,
+    });
+    if (options.variant !== undefined) {
+      Object.defineProperty(target.prototype, SUBSERDE, {
+        value: options.variant,
+        writable: true,
+        configurable: true,
+      });
+    }
+    registry.set(target, { ...options, subprotocol });
+  };
+}
+
+/** Property decorator which marks a property to be persisted. If a class has no `@field()`s, all of its own enumerable
+ * properties are persisted except those marked `@transient()`.
+ */
+export function field() {
+  return (target: object, key: string | symbol) => {
+    push(fields, target, key);
+  };
+}
+
+/** Property decorator which excludes a property from persistence. */
+export function transient() {
+  return (target: object, key: string | symbol) => {
+    push(transients, target, key);
+  };
+}
+
+/** Get the registered classes, limited to `classes` if given. Throws if any of `classes` is not decorated. */
+export function getSerializableClasses(classes: Constructor[] = []): [Constructor, SerializableClass][] {
+  if (!classes.length) return [...registry.entries()];
+  return classes.map(con => {
+    if (!registry.has(con))
+      throw new Error(`Class ${con.name} is not decorated with @serializable`);
+    return [con, registry.get(con)!];
+  });
+}
+
+/** Collect the persisted properties of `value` into a plain object. */
+export function pickFields(value: any) {
+  const explicit = collect(fields, value);
+  const excluded = new Set(collect(transients, value));
+  const keys = explicit.length ? explicit : Object.keys(value).filter(key => !excluded.has(key));
+  
+  const data: Record<string, unknown> = {};
+  for (const key of keys) {
+    setEntry(data, key, value[key]);
+  }
+  return data;
+}
+
+/** Restore an instance of `con` from the persisted properties in `data`, dereferencing each. */
+export function restoreInstance(con: Constructor, { factory }: SerializableClass, data: any, deref: DeserializeContext['deref']) {
+  const inst = factory ? factory() : Object.create(con.prototype);
+  for (const key of Object.keys(data)) {
+    deref(data[key], value => { setEntry(inst, key, value) });
+  }
+  return inst;
+}
+
+function push(map: WeakMap<object, string[]>, target: object, key: string | symbol) {
+  if (typeof key !== 'string')
+    throw new Error('Only string properties can be persisted');
+  if (!map.has(target)) map.set(target, []);
+  map.get(target)!.push(key);
+}
+
+/** Collect the keys of `map` along the prototype chain of `value`, starting at the root. */
+function collect(map: WeakMap<object, string[]>, value: object) {
+  const result: string[] = [];
+  for (let proto = Object.getPrototypeOf(value); proto; proto = Object.getPrototypeOf(proto)) {
+    result.unshift(...(map.get(proto) ?? []).filter(key => !result.includes(key)));
+  }
+  return result;
+}
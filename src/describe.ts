@@ -0,0 +1,596 @@
+//////////////////////////////////////////////////////////////////////
+// Submodule for machine-readable descriptions of the wire format
+// A description lists the constants of the wire format & every registered subprotocol along with its layout where
+// known. It is plain JSON, so decoders in other languages can be built from it. `generateDecoder` builds a standalone
+// TypeScript decoder from a description, which reads payloads without the Serde instance which wrote them.
+// See FORMAT.md for the specification of the layouts.
+import type { Checksum, Codec } from './codec'
+import type { HeaderFlag } from './header'
+
+/** Layout of the payload of a subprotocol. Primitive kinds match those of the schema builders `s`, `any` is a tagged
+ * value, and `standard` the built-in layout of the standard subprotocol of the same name.
+ */
+export type Layout =
+  | { kind: 'bool' | 'uint8' | 'uint32' | 'int32' | 'varint' | 'float32' | 'float64' | 'bigint' | 'string' | 'bytes' | 'any' | 'standard' }
+  | { kind: 'optional', inner: Layout }
+  | { kind: 'array', items: Layout }
+  | { kind: 'struct', fields: [name: string, layout: Layout][] }
+  | { kind: 'variant', variants: VariantDescription[] };
+
+export interface VariantDescription {
+  name: string;
+  /** Hash of the variant's name, written after the subprotocol's tag. */
+  hash: number;
+  layout?: Layout;
+}
+
+export interface SubProtocolDescription {
+  name: string;
+  /** ID identifying the subprotocol on the wire, i.e. its explicit ID or else `hash`. */
+  id: number;
+  /** Hash of the subprotocol's name as computed by `hash`. */
+  hash: number;
+  explicit: boolean;
+  /** Current version of the subprotocol's payload layout. 0 if unversioned. */
+  version: number;
+  /** Layout of the subprotocol's payload. Undefined for subprotocols with a custom serializer. */
+  layout?: Layout;
+}
+
+export interface FormatDescription {
+  /** Format version written to the header. */
+  version: number;
+  /** Magic bytes as ASCII text. */
+  magic: string;
+  /** Header flags in order of their bit, starting at the most significant bit. */
+  flags: HeaderFlag[];
+  codecs: Record<Codec, number>;
+  checksums: Record<Checksum, number>;
+  /** Tag preceding the ID & version of versioned subprotocols. */
+  versionedTag: number;
+  /** Layout bytes of binary data. */
+  binary: { inline: number, chunk: number, shared: number };
+  /** Alignment of the bytes of ArrayBuffers & typed arrays. */
+  bufferAlignment: number;
+  /** Tag bytes of the compact number encoding. Tags below `SmallMax` are small integers themselves. */
+  compactNumber: { SmallMax: number, UInt: number, NegInt: number, Float32: number, Float64: number };
+  /** Flags preceding objects & arrays in order of their bit, starting at the most significant bit. */
+  objectFlags: string[];
+  /** Names of the typed array constructors by their type byte. Index 0 is unused. */
+  typedArrays: (string | null)[];
+}
+
+export interface SerdeDescription {
+  format: FormatDescription;
+  /** All registered subprotocols ordered by ID. */
+  subprotocols: SubProtocolDescription[];
+}
+
+/** Generate the source of a standalone TypeScript module which decodes the payloads described by `description`. The
+ * module exports `decode(bytes, options)`, restoring standard subprotocols to their native values & other subprotocols
+ * with a known layout to plain data.
+ */
+export function generateDecoder(description: SerdeDescription) {
+  const { format, subprotocols } = description;
+  const constants = [
+    `const FORMAT_VERSION = ${format.version};`,
+    `const MAGIC = ${JSON.stringify(format.magic)};`,
+    `const HEADER_FLAGS = ${JSON.stringify(format.flags)};`,
+    `const CODECS: Record<number, string> = ${JSON.stringify(invert(format.codecs))};`,
+    `const CHECKSUMS: Record<number, string> = ${JSON.stringify(invert(format.checksums))};`,
+    `const VERSIONED_TAG = ${hex(format.versionedTag)};`,
+    `const BINARY = ${JSON.stringify(format.binary)};`,
+    `const BUFFER_ALIGNMENT = ${format.bufferAlignment};`,
+    `const COMPACT_NUMBER = ${JSON.stringify(format.compactNumber)};`,
+    `const OBJECT_FLAGS = ${JSON.stringify(format.objectFlags)};`,
+    `const TYPED_ARRAYS = ${JSON.stringify(format.typedArrays)};`,
+  ];
+  const entries = subprotocols.map(({ name, id, version, layout }) =>
+    `  // ${name}${version ? ` v${version}` : ''}\n` +
+    `  [${hex(id)}, { name: ${JSON.stringify(name)}, read: ${readerOf(name, layout)} }],`
+  );
+
+  return [
+    '// Generated by serde.ts from the description of a Serde. Do not edit.',
+    `// Decodes payloads of format version ${format.version} without the Serde which wrote them. See FORMAT.md of serde.ts.`,
+    '',
+    ...constants,
+    '',
+    DECODER_RUNTIME.trim(),
+    '',
+    'const SUBPROTOCOLS = new Map<number, SubProtocol>([',
+    ...entries,
+    ']);',
+    '',
+  ].join('\n');
+}
+
+/** Source of the function reading the payload of a subprotocol. */
+function readerOf(name: string, layout: Layout | undefined) {
+  if (!layout) return `r => r.opaque(${JSON.stringify(name)})`;
+  if (layout.kind === 'standard') return `STANDARD[${JSON.stringify(name)}] ?? (r => r.opaque(${JSON.stringify(name)}))`;
+  return `r => ${expressionOf(name, layout)}`;
+}
+
+/** Source of the expression reading a value of `layout` from the Reader `r`. */
+function expressionOf(name: string, layout: Layout): string {
+  switch (layout.kind) {
+    case 'bool': return 'r.bool()';
+    case 'uint8': return 'r.byte()';
+    case 'uint32': return 'r.u32()';
+    case 'int32': return '(r.u32() | 0)';
+    case 'varint': return 'r.varint()';
+    case 'float32': return 'r.f32()';
+    case 'float64': return 'r.f64()';
+    case 'bigint': return 'r.bigint()';
+    case 'string': return 'r.string()';
+    case 'bytes': return 'copy(r.bytes(r.uint()))';
+    case 'any': return 'r.value()';
+    case 'standard': return `STANDARD[${JSON.stringify(name)}](r)`;
+    case 'optional': return `(r.bool() ? ${expressionOf(name, layout.inner)} : undefined)`;
+    case 'array': return `r.array(() => ${expressionOf(name, layout.items)})`;
+    case 'struct': {
+      const fields = layout.fields.map(([field, layout]) => `[${JSON.stringify(field)}, () => ${expressionOf(name, layout)}]`);
+      return `r.struct([${fields.join(', ')}])`;
+    }
+    case 'variant': {
+      const variants = layout.variants.map(({ name: variant, hash, layout }) =>
+        `[${hex(hash)}, ${layout ? `() => ${expressionOf(`${name}/${variant}`, layout)}` : `() => r.opaque(${JSON.stringify(`${name}/${variant}`)})`}]`
+      );
+      return `r.variant(${JSON.stringify(name)}, new Map<number, () => unknown>([${variants.join(', ')}]))`;
+    }
+  }
+}
+
+const hex = (num: number) => '0x' + num.toString(16).toUpperCase();
+const invert = (ids: Record<string, number>) => Object.fromEntries(Object.entries(ids).map(([name, id]) => [id, name]));
+
+/** Runtime of generated decoders. Must not use template literals, as it is embedded in one. */
+const DECODER_RUNTIME = `
+export interface DecodeOptions {
+  /** Decompress the body of payloads compressed with the given codec, e.g. \`zlib.inflateSync\` for deflate. */
+  decompress?(codec: string, bytes: Uint8Array): Uint8Array;
+  /** Return the bytes of the separately stored binary chunk \`key\`. */
+  chunks?(key: string): Uint8Array | undefined;
+  /** Whether payloads without header use the compact encoding. */
+  compact?: boolean;
+}
+
+export class DecodeError extends Error {
+  constructor(message: string, public readonly offset: number) {
+    super(message + ' (at offset ' + offset + ')');
+  }
+}
+
+interface SubProtocol {
+  name: string;
+  read(r: Reader, version: number): unknown;
+}
+
+/** Placeholder of a reference, substituted once all records have been read. */
+class Ref {
+  constructor(public readonly id: number) {}
+}
+
+/** Decode the payload \`bytes\`, restoring references, cycles included. */
+export function decode(bytes: Uint8Array, options: DecodeOptions = {}): unknown {
+  let body = bytes;
+  let flags: Record<string, boolean> = { compact: !!options.compact };
+  if (bytes.length >= MAGIC.length + 2 && MAGIC.split('').every((char, i) => bytes[i] === char.charCodeAt(0))) {
+    if (bytes[4] !== FORMAT_VERSION)
+      throw new DecodeError('Unsupported format version ' + bytes[4], 4);
+    HEADER_FLAGS.forEach((flag, i) => { flags[flag] = !!(bytes[5] & 0x80 >> i) });
+    if (bytes[5] & 0xFF >> HEADER_FLAGS.length)
+      throw new DecodeError('Unsupported header flags: ' + bytes[5].toString(2), 5);
+
+    let cursor = 6;
+    const codec = flags.compressed ? CODECS[bytes[cursor++]] : undefined;
+    const checksum = flags.checksum ? CHECKSUMS[bytes[cursor++]] : undefined;
+    let end = bytes.length;
+    if (flags.checksum) {
+      if (checksum !== 'crc32')
+        throw new DecodeError('Unsupported checksum algorithm ' + bytes[cursor - 1], cursor - 1);
+      end -= 4;
+      if (end < cursor || crc32(bytes.subarray(0, end)) !== new Reader(bytes, options).seek(end).u32())
+        throw new DecodeError('Checksum mismatch', end);
+    }
+    body = bytes.subarray(cursor, end);
+    if (flags.compressed) {
+      if (!codec)
+        throw new DecodeError('Unsupported codec ' + bytes[6], 6);
+      if (!options.decompress)
+        throw new Error('Payload is compressed with ' + codec + ', which requires DecodeOptions.decompress');
+      body = options.decompress(codec, body);
+    }
+  }
+
+  const r = new Reader(body, options);
+  r.compact = !!flags.compact;
+  const objs = new Map<number, unknown>();
+  const record = () => {
+    const offset = r.tell();
+    const id = r.uint();
+    if (objs.has(id))
+      throw new DecodeError('Duplicate reference ID: ' + id, offset);
+    // flags whether the subprotocol was overridden, the tag follows either way
+    r.bool();
+    objs.set(id, r.value());
+  };
+
+  if (flags.stream) {
+    for (let length = r.u32(); length; length = r.u32()) {
+      const end = r.tell() + length;
+      record();
+      if (r.tell() !== end)
+        throw new DecodeError('Frame length mismatch', r.tell());
+    }
+  }
+  else {
+    // the index table of indexed payloads follows the records
+    for (let count = r.u32(); count; --count) record();
+  }
+
+  if (!objs.has(0))
+    throw new DecodeError('Root reference not found', r.tell());
+  for (const [ref, substitute] of r.refs) {
+    if (!objs.has(ref.id))
+      throw new DecodeError('Reference ID not found: ' + ref.id, r.tell());
+    substitute(objs.get(ref.id));
+  }
+  for (const finalize of r.finalizers) finalize();
+  return objs.get(0);
+}
+
+class Reader {
+  /** Whether unsigned integers are varints & numbers compact numbers. */
+  compact = false;
+  /** Tag table of compact payloads. */
+  tags: [SubProtocol, number][] = [];
+  /** Bytes of each ArrayBuffer in order of their first occurrence. */
+  buffers: Uint8Array[] = [];
+  /** References along with the function substituting their value. */
+  refs: [Ref, (value: unknown) => void][] = [];
+  /** Callbacks to run once all references are substituted, i.e. freezing objects. */
+  finalizers: (() => void)[] = [];
+  private cursor = 0;
+
+  constructor(public readonly buffer: Uint8Array, public readonly options: DecodeOptions) {}
+
+  tell() { return this.cursor }
+  seek(cursor: number) { this.cursor = cursor; return this }
+
+  advance(count: number) {
+    if (count > this.buffer.length - this.cursor)
+      throw new DecodeError('Unexpected end of payload: expected ' + count + ' more bytes', this.cursor);
+    this.cursor += count;
+    return this.cursor - count;
+  }
+
+  bytes(count: number) {
+    const start = this.advance(count);
+    return this.buffer.subarray(start, start + count);
+  }
+
+  view(count: number) {
+    const bytes = this.bytes(count);
+    return new DataView(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  byte() { return this.buffer[this.advance(1)] }
+  bool() { return !!this.byte() }
+  u32() { return this.view(4).getUint32(0, true) }
+  f32() { return this.view(4).getFloat32(0, true) }
+  f64() { return this.view(8).getFloat64(0, true) }
+
+  varint() {
+    let result = 0;
+    for (let shift = 1; shift <= Math.pow(2, 49); shift *= 0x80) {
+      const byte = this.byte();
+      result += (byte & 0x7F) * shift;
+      if (!(byte & 0x80)) return result;
+    }
+    throw new DecodeError('Varint exceeds safe integer range', this.cursor);
+  }
+
+  /** Lengths, counts & IDs. */
+  uint() { return this.compact ? this.varint() : this.u32() }
+
+  number() {
+    if (!this.compact) return this.f64();
+    const tag = this.byte();
+    if (tag < COMPACT_NUMBER.SmallMax) return tag;
+    switch (tag) {
+      case COMPACT_NUMBER.UInt: return this.varint();
+      case COMPACT_NUMBER.NegInt: return -this.varint();
+      case COMPACT_NUMBER.Float32: return this.f32();
+      case COMPACT_NUMBER.Float64: return this.f64();
+      default: throw new DecodeError('Invalid compact number tag: ' + tag, this.cursor - 1);
+    }
+  }
+
+  bigint() {
+    const negative = this.bool();
+    const bytes = this.bytes(this.byte());
+    let result = BigInt(0);
+    for (let i = bytes.length - 1; i >= 0; --i) {
+      result = result * BigInt(256) + BigInt(bytes[i]);
+    }
+    return negative ? -result : result;
+  }
+
+  string() {
+    return new TextDecoder().decode(this.bytes(this.uint()));
+  }
+
+  /** Skip alignment padding. */
+  align() {
+    this.advance(this.byte());
+  }
+
+  /** Read a subprotocol tag. Returns the subprotocol & the version its payload was written with. */
+  tag(): [SubProtocol, number] {
+    const offset = this.cursor;
+    if (this.compact) {
+      const index = this.varint();
+      if (index < this.tags.length) return this.tags[index];
+      if (index > this.tags.length)
+        throw new DecodeError('Invalid tag table index: ' + index, offset);
+      // new entries of the tag table are written in the regular layout
+      this.compact = false;
+      try {
+        this.tags.push(this.tag());
+      } finally {
+        this.compact = true;
+      }
+      return this.tags[index];
+    }
+
+    let id = this.u32();
+    let version = 0;
+    if (id === VERSIONED_TAG) {
+      id = this.u32();
+      version = this.uint();
+    }
+    const subprotocol = SUBPROTOCOLS.get(id);
+    if (!subprotocol)
+      throw new DecodeError('Unknown subprotocol ID: 0x' + id.toString(16), offset);
+    return [subprotocol, version];
+  }
+
+  /** Read a tagged value. */
+  value(): unknown {
+    const [subprotocol, version] = this.tag();
+    return subprotocol.read(this, version);
+  }
+
+  /** Assign \`value\` to \`target[key]\`, substituting it later if it is a reference. \`__proto__\` is defined as own
+   * property rather than replacing the prototype of \`target\`.
+   */
+  assign(target: any, key: string | number, value: unknown) {
+    const set = (value: unknown) => {
+      if (key === '__proto__')
+        Object.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true });
+      else
+        target[key] = value;
+    };
+    set(value);
+    this.deref(value, set);
+  }
+
+  /** Call \`substitute\` with \`value\`, or with the value it references once all records have been read. */
+  deref(value: unknown, substitute: (value: any) => void) {
+    if (value instanceof Ref)
+      this.refs.push([value, substitute]);
+    else
+      substitute(value);
+  }
+
+  array(read: () => unknown) {
+    const result = new Array(this.uint());
+    for (let i = 0; i < result.length; ++i) {
+      this.assign(result, i, read());
+    }
+    return result;
+  }
+
+  struct(fields: [string, () => unknown][]) {
+    const result: Record<string, unknown> = {};
+    for (const [key, read] of fields) {
+      this.assign(result, key, read());
+    }
+    return result;
+  }
+
+  variant(subprotocol: string, variants: Map<number, () => unknown>) {
+    const offset = this.cursor;
+    const hash = this.u32();
+    const read = variants.get(hash);
+    if (!read)
+      throw new DecodeError('Unknown variant of subprotocol ' + subprotocol + ': 0x' + hash.toString(16), offset);
+    return read();
+  }
+
+  opaque(subprotocol: string): never {
+    throw new DecodeError('Subprotocol ' + subprotocol + ' has a custom layout which cannot be decoded', this.cursor);
+  }
+
+  /** Read binary data. Returns a copy, which is aligned as it starts its own ArrayBuffer. */
+  binary(alignment: number) {
+    const offset = this.cursor;
+    const layout = this.byte();
+    if (layout === BINARY.inline) {
+      const length = this.uint();
+      if (alignment > 1) this.align();
+      return copy(this.bytes(length));
+    }
+    if (layout === BINARY.chunk) {
+      const key = this.string();
+      const chunk = this.options.chunks && this.options.chunks(key);
+      if (!chunk)
+        throw new DecodeError('Binary chunk not found: ' + key, offset + 1);
+      return copy(chunk);
+    }
+    throw new DecodeError('Invalid binary layout: ' + layout, offset);
+  }
+
+  /** Read the bytes of an ArrayBuffer, which is written only once & referenced by its index afterwards. */
+  arrayBuffer() {
+    const offset = this.cursor;
+    if (this.buffer[offset] !== BINARY.shared) {
+      const bytes = this.binary(BUFFER_ALIGNMENT);
+      this.buffers.push(bytes);
+      return bytes;
+    }
+    this.advance(1);
+    const index = this.uint();
+    if (!(index in this.buffers))
+      throw new DecodeError('Invalid ArrayBuffer index: ' + index, offset + 1);
+    return this.buffers[index];
+  }
+}
+
+const ERRORS: Record<string, ErrorConstructor> = { Error, EvalError, RangeError, ReferenceError, SyntaxError, TypeError, URIError };
+
+/** Readers of the standard subprotocols. */
+const STANDARD: Record<string, (r: Reader) => unknown> = {
+  boolean: r => r.bool(),
+  number: r => r.number(),
+  string: r => r.string(),
+  bigint: r => r.bigint(),
+  undef: () => undefined,
+  null: () => null,
+  regex: r => parseRegex(r.string()),
+  regexp: r => parseRegex(r.string()),
+  set: r => {
+    const result = new Set();
+    for (let size = r.uint(); size; --size) {
+      r.deref(r.value(), item => { result.add(item) });
+    }
+    return result;
+  },
+  map: r => {
+    const result = new Map();
+    for (let size = r.uint(); size; --size) {
+      const key = r.value();
+      const value = r.value();
+      r.deref(key, key => r.deref(value, value => { result.set(key, value) }));
+    }
+    return result;
+  },
+  date: r => new Date(r.number()),
+  error: r => {
+    const name = r.string();
+    const message = r.string();
+    const stack = r.value();
+    const error = new (ERRORS.hasOwnProperty(name) ? ERRORS[name] : Error)(message);
+    if (error.name !== name) error.name = name;
+    if (typeof stack === 'string') error.stack = stack;
+    if (r.bool()) {
+      r.deref(r.value(), cause => {
+        Object.defineProperty(error, 'cause', { value: cause, writable: true, configurable: true });
+      });
+    }
+    return error;
+  },
+  url: r => new URL(r.string()),
+  urlsearchparams: r => new URLSearchParams(r.string()),
+  boxed: r => Object(r.value()),
+  buffer: r => r.binary(1),
+  arraybuffer: r => r.arrayBuffer().buffer,
+  typedarray: r => {
+    const offset = r.tell();
+    const type = r.byte();
+    const con = TYPED_ARRAYS[type] && (globalThis as any)[TYPED_ARRAYS[type]!];
+    if (!con)
+      throw new DecodeError('Invalid TypedArray index: ' + type, offset);
+    const bytes = r.arrayBuffer();
+    const byteOffset = r.uint();
+    const length = r.uint();
+    if (byteOffset % con.BYTES_PER_ELEMENT || byteOffset + length * con.BYTES_PER_ELEMENT > bytes.byteLength)
+      throw new DecodeError('Invalid ' + TYPED_ARRAYS[type] + ' of length ' + length + ' at offset ' + byteOffset, offset);
+    return new con(bytes.buffer, bytes.byteOffset + byteOffset, length);
+  },
+  array: readObject,
+  object: readObject,
+  'data-object': readObject,
+  reference: r => new Ref(r.uint()),
+};
+
+function readObject(r: Reader) {
+  const offset = r.tell();
+  const byte = r.byte();
+  const flags: Record<string, boolean> = {};
+  OBJECT_FLAGS.forEach((flag, i) => { flags[flag] = !!(byte & 0x80 >> i) });
+  if (byte & 0xFF >> OBJECT_FLAGS.length)
+    throw new DecodeError('Invalid object flags: ' + byte.toString(2), offset);
+
+  let result: any;
+  if (flags.array) {
+    const length = r.uint();
+    result = new Array(length);
+    if (flags.sparse) {
+      for (let count = r.uint(); count; --count) {
+        const index = r.uint();
+        if (index >= length)
+          throw new DecodeError('Invalid index ' + index + ' of sparse array of length ' + length, r.tell());
+        r.assign(result, index, r.value());
+      }
+    }
+    else {
+      for (let i = 0; i < length; ++i) {
+        r.assign(result, i, r.value());
+      }
+    }
+    if (flags.props) readEntries(r, result);
+  }
+  else {
+    result = flags.nullPrototype ? Object.create(null) : {};
+    readEntries(r, result);
+  }
+
+  if (flags.frozen || flags.sealed || flags.nonExtensible) {
+    r.finalizers.push(() => {
+      if (flags.frozen) Object.freeze(result);
+      else if (flags.sealed) Object.seal(result);
+      else Object.preventExtensions(result);
+    });
+  }
+  return result;
+}
+
+function readEntries(r: Reader, target: any) {
+  for (let length = r.uint(); length; --length) {
+    r.assign(target, r.string(), r.value());
+  }
+}
+
+/** Copy \`bytes\` into a Uint8Array of its own, as NodeJS Buffers returned by \`decompress\` or \`chunks\` slice by reference. */
+function copy(bytes: Uint8Array) {
+  return new Uint8Array(bytes);
+}
+
+function parseRegex(text: string) {
+  const end = text.lastIndexOf('/');
+  return new RegExp(text.substring(1, end), text.substring(end + 1));
+}
+
+let CRC32_TABLE: Uint32Array | undefined;
+
+function crc32(bytes: Uint8Array) {
+  if (!CRC32_TABLE) {
+    CRC32_TABLE = new Uint32Array(256);
+    for (let i = 0; i < 256; ++i) {
+      let crc = i;
+      for (let bit = 0; bit < 8; ++bit) {
+        crc = crc & 1 ? 0xEDB88320 ^ (crc >>> 1) : crc >>> 1;
+      }
+      CRC32_TABLE[i] = crc >>> 0;
+    }
+  }
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < bytes.length; ++i) {
+    crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+`;
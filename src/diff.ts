@@ -0,0 +1,311 @@
+//////////////////////////////////////////////////////////////////////
+// Submodule for delta encoding between two versions of an object graph
+// Objects of the previous value are identified by the reference IDs a serialization of it assigns, which the receiver
+// reproduces from its own copy. Objects, arrays, Maps & Sets of the next value which take the place of their previous
+// counterpart, or are the same object, keep its ID & are patched in place. All other objects are written as new records.
+// Layout: `[u32 reference count of prev][u32 op count][ops][u32 record count][records]` where each op is
+// `[byte op][uint target ID][args]` & each record `[uint ID][tagged value]`. Ops are encoded as their index in `OPS`.
+import { SerdeDecodeError } from './errors'
+import type Serde from './protocol'
+import Reader from './reader'
+import { DeserializeContext, Reference, SerializeContext } from './types'
+import { isArrayIndex, isObject, setEntry } from './util'
+import Writer from './writer'
+
+type Kind = 'object' | 'array' | 'map' | 'set';
+
+/** Kinds of the target each op applies to. `root` replaces the root value & has no target, `resize` truncates or
+ * extends an array to `[uint length]`, all other ops take a `[key]` or `[item]` and, if they set one, a `[value]`.
+ */
+const OPS = {
+  root: [],
+  set: ['object', 'array'],
+  delete: ['object', 'array'],
+  resize: ['array'],
+  mapset: ['map'],
+  mapdelete: ['map'],
+  setadd: ['set'],
+  setdelete: ['set'],
+} satisfies Record<string, Kind[]>;
+
+type Op = keyof typeof OPS;
+const OP_NAMES = Object.keys(OPS) as Op[];
+
+/** Encode the patch which turns `prev` into `next`. `prev` must not have been mutated since the receiver's copy was
+ * taken: objects shared by identity between `prev` & `next` are considered unchanged.
+ */
+export function encodeDiff(serde: Serde<any, any>, prev: unknown, next: unknown): Uint8Array {
+  const prevRefs = referencesOf(serde, prev);
+  const matches = matchObjects(serde, prev, next, prevRefs, referencesOf(serde, next));
+  const counterpart = (value: any) => matches.get(value) ?? value;
+  
+  const ctx = new SerializeContext(serde);
+  prevRefs.forEach((ref, obj) => ctx.refs.assume(obj, ref));
+  matches.forEach((match, obj) => ctx.refs.assume(obj, prevRefs.get(match)!));
+  
+  const writer = new Writer();
+  const write = (value: unknown) => serde.serialize(ctx.ref(value), writer, ctx);
+  let count = 0;
+  const op = (op: Op, target?: object) => {
+    ++count;
+    writer.writeByte(OP_NAMES.indexOf(op));
+    if (target) writer.writeUInt(prevRefs.get(target)!.id);
+  };
+  const diffEntries = (target: object, entries: Map<string, unknown>, prevEntries: Map<string, unknown>) => {
+    for (const key of prevEntries.keys()) {
+      if (!entries.has(key)) {
+        op('delete', target);
+        write(key);
+      }
+    }
+    for (const [key, value] of entries) {
+      if (prevEntries.has(key) && Object.is(counterpart(value), prevEntries.get(key))) continue;
+      op('set', target);
+      write(key);
+      write(value);
+    }
+  };
+  
+  writer.writeUInt32(prevRefs.size);
+  const opStart = writer.tell();
+  writer.writeUInt32(0);
+  if (next !== prev && !matches.has(next as any)) {
+    op('root');
+    write(next);
+  }
+  
+  for (const [obj, match] of matches) {
+    switch (kindOf(serde, obj)) {
+      case 'array': {
+        const array = obj as unknown[], prevArray = match as unknown[];
+        if (array.length !== prevArray.length) {
+          op('resize', match);
+          writer.writeUInt(array.length);
+        }
+        for (let index = 0; index < array.length; ++index) {
+          const had = index in prevArray;
+          if (!(index in array)) {
+            // the item became a hole
+            if (had) {
+              op('delete', match);
+              write(String(index));
+            }
+            continue;
+          }
+          if (had && Object.is(counterpart(array[index]), prevArray[index])) continue;
+          op('set', match);
+          write(String(index));
+          write(array[index]);
+        }
+        // other properties than indices
+        diffEntries(match, entriesOf(array, true), entriesOf(prevArray, true));
+        break;
+      }
+      case 'object':
+        diffEntries(match, entriesOf(obj), entriesOf(match));
+        break;
+      case 'map': {
+        const map = obj as Map<unknown, unknown>, prevMap = match as Map<unknown, unknown>;
+        const keys = new Set([...map.keys()].map(counterpart));
+        for (const key of prevMap.keys()) {
+          if (!keys.has(key)) {
+            op('mapdelete', match);
+            write(key);
+          }
+        }
+        for (const [key, value] of map) {
+          if (prevMap.has(counterpart(key)) && Object.is(counterpart(value), prevMap.get(counterpart(key)))) continue;
+          op('mapset', match);
+          write(key);
+          write(value);
+        }
+        break;
+      }
+      case 'set': {
+        const set = obj as Set<unknown>, prevSet = match as Set<unknown>;
+        const items = new Set([...set].map(counterpart));
+        for (const item of prevSet) {
+          if (!items.has(item)) {
+            op('setdelete', match);
+            write(item);
+          }
+        }
+        for (const item of set) {
+          if (prevSet.has(counterpart(item))) continue;
+          op('setadd', match);
+          write(item);
+        }
+        break;
+      }
+    }
+  }
+  
+  const recordStart = writer.tell();
+  writer.seek(opStart).writeUInt32(count).seek(recordStart);
+  writer.writeUInt32(0);
+  let records = 0;
+  let pending = ctx.refs.pop();
+  while (pending) {
+    const [obj, ref] = pending;
+    writer.writeUInt(ref.id);
+    serde.serialize(obj, writer, ctx);
+    ++records;
+    pending = ctx.refs.pop();
+  }
+  const end = writer.tell();
+  writer.seek(recordStart).writeUInt32(records).seek(end);
+  
+  writer.compress();
+  return writer.buffer;
+}
+
+/** Apply a patch as encoded by `encodeDiff` to `prev`, a copy of the value the patch was computed from. Objects are
+ * patched in place. Returns the patched root, which is `prev` itself unless the root was replaced.
+ */
+export function applyPatch(serde: Serde<any, any>, prev: unknown, bytes: Uint8Array) {
+  const objs: unknown[] = [];
+  const prevRefs = referencesOf(serde, prev);
+  prevRefs.forEach((ref, obj) => { objs[ref.id] = obj });
+  
+  const reader = new Reader(bytes);
+  const ctx = new DeserializeContext(serde);
+  const count = reader.readUInt32();
+  if (count !== prevRefs.size)
+    throw new Error(`Patch was computed from a value with ${count} references, but the given value has ${prevRefs.size}`);
+  
+  const opCount = reader.readUInt32();
+  ctx.assertLength(reader, opCount, 'maxCollectionLength');
+  const ops = Array.from({ length: opCount }, () => readOp(ctx, reader, objs));
+  
+  const recordCount = reader.readUInt32();
+  ctx.assertLength(reader, recordCount, 'maxReferences', 2);
+  for (let i = 0; i < recordCount; ++i) {
+    const offset = reader.tell();
+    const id = reader.readUInt();
+    if (id in objs)
+      throw new SerdeDecodeError(`Duplicate reference ID: ${id}`, offset);
+    objs[id] = serde.deserialize(reader, ctx);
+  }
+  
+  const lookup = (id: number) => {
+    if (!(id in objs))
+      throw new SerdeDecodeError(`Reference ID not found: ${id}`, reader.tell());
+    return objs[id];
+  };
+  for (const ref of ctx.refs) {
+    ref.substitute(lookup(ref.id));
+  }
+  for (const finalize of ctx.finalizers) {
+    finalize();
+  }
+  const resolve = (value: unknown) => value instanceof Reference ? lookup(value.id) : value;
+  
+  let root = prev;
+  for (const [op, target, ...args] of ops) {
+    const [key, value] = args.map(resolve) as [any, unknown];
+    switch (op) {
+      case 'root': root = key; break;
+      case 'set': setEntry(target, key, value); break;
+      case 'delete': delete target[key]; break;
+      case 'resize': target.length = key; break;
+      case 'mapset': target.set(key, value); break;
+      case 'mapdelete': target.delete(key); break;
+      case 'setadd': target.add(key); break;
+      case 'setdelete': target.delete(key); break;
+    }
+  }
+  return root;
+}
+
+/** Read a single op, returning its code, target & arguments, which may still be References. */
+function readOp(ctx: DeserializeContext, reader: Reader, objs: unknown[]): [Op, any, ...unknown[]] {
+  const offset = reader.tell();
+  const code = reader.readByte();
+  const op = OP_NAMES[code];
+  if (!op)
+    throw new SerdeDecodeError(`Invalid patch op: ${code}`, offset);
+  if (op === 'root')
+    return [op, undefined, ctx.serde.deserialize(reader, ctx)];
+  
+  const id = reader.readUInt();
+  const target = objs[id];
+  const kinds: Kind[] = OPS[op];
+  if (!kinds.includes(kindOf(ctx.serde, target)!))
+    throw new SerdeDecodeError(`Target #${id} of patch op ${op} is not of type ${kinds.join(' or ')}`, offset);
+  
+  if (op === 'resize')
+    return [op, target, reader.readUInt()];
+  const key = ctx.serde.deserialize(reader, ctx);
+  if (op === 'set' || op === 'mapset')
+    return [op, target, key, ctx.serde.deserialize(reader, ctx)];
+  return [op, target, key];
+}
+
+/** Assign reference IDs to all objects reachable from `root` as its serialization would. */
+function referencesOf(serde: Serde<any, any>, root: unknown) {
+  const ctx = new SerializeContext(serde);
+  const writer = new Writer();
+  ctx.refs.push(root);
+  let next = ctx.refs.pop();
+  while (next) {
+    serde.serialize(next[0], writer, ctx);
+    next = ctx.refs.pop();
+  }
+  return ctx.refs.all;
+}
+
+/** Match the objects of `next` with the objects of `prev` whose place they take, starting at the roots & descending
+ * into matched pairs. Objects already present in `prev` by identity are not matched, neither are objects of `prev` still
+ * present in `next`, nor frozen, sealed or non-extensible objects. Returns the match of each object of `next`.
+ */
+function matchObjects(serde: Serde<any, any>, prev: unknown, next: unknown, prevRefs: Map<any, Reference>, nextRefs: Map<any, Reference>) {
+  const matches = new Map<object, object>();
+  const matched = new Set<object>();
+  const queue: [any, any][] = [];
+  
+  const match = (obj: unknown, candidate: unknown) => {
+    if (!isObject(obj) || !isObject(candidate)) return;
+    if (prevRefs.has(obj) || matches.has(obj) || nextRefs.has(candidate) || matched.has(candidate)) return;
+    // objects which cannot be patched in place, or must not be, are written anew
+    if (!Object.isExtensible(obj) || !Object.isExtensible(candidate)) return;
+    const kind = kindOf(serde, obj);
+    if (!kind || kind !== kindOf(serde, candidate)) return;
+    matches.set(obj, candidate);
+    matched.add(candidate);
+    queue.push([obj, candidate]);
+  };
+  
+  match(next, prev);
+  while (queue.length) {
+    const [obj, candidate] = queue.shift()!;
+    if (obj instanceof Map) {
+      for (const [key, value] of obj) {
+        const prevKey = matches.get(key) ?? key;
+        if (candidate.has(prevKey)) match(value, candidate.get(prevKey));
+      }
+    }
+    else if (!(obj instanceof Set)) {
+      const entries = entriesOf(candidate);
+      for (const [key, value] of entriesOf(obj)) {
+        if (entries.has(key)) match(value, entries.get(key));
+      }
+    }
+  }
+  return matches;
+}
+
+/** Kind of the objects which are patched in place, undefined for all other values. */
+function kindOf(serde: Serde<any, any>, value: unknown): Kind | undefined {
+  if (!isObject(value)) return undefined;
+  switch (serde.getSubProtocolOf(value)) {
+    case 'object': return Array.isArray(value) ? 'array' : 'object';
+    case 'map': return 'map';
+    case 'set': return 'set';
+  }
+}
+
+/** Serializable properties of `obj`, i.e. excluding functions & symbols, and array indices if `props`. */
+function entriesOf(obj: object, props = false) {
+  return new Map(Object.entries(obj).filter(([key, value]) =>
+    typeof value !== 'function' && typeof value !== 'symbol' && !(props && isArrayIndex(key))));
+}
@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+//////////////////////////////////////////////////////////////////////
+// serde-dump CLI
+// Prints the annotated tree of a serialized payload as produced by `inspect`. Custom subprotocols are resolved through
+// the Serde exported by the module given with `--require`, else only standard subprotocols are known.
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { formatInspection, inspect } from './inspect'
+import Serde from './protocol'
+
+const USAGE = `Usage: serde-dump [--require <module>] [--compact] [--json] <file | ->
+
+Options:
+  --require <module>  Module exporting the Serde to inspect with, as default export or \`serde\`.
+  --compact           Read payloads without header in the compact encoding.
+  --json              Print the inspection as JSON rather than as annotated tree.`;
+
+export function main(args: string[]) {
+  let file: string | undefined;
+  let modulePath: string | undefined;
+  let compact = false;
+  let json = false;
+  
+  for (let i = 0; i < args.length; ++i) {
+    switch (args[i]) {
+      case '--require': modulePath = args[++i]; break;
+      case '--compact': compact = true; break;
+      case '--json': json = true; break;
+      case '-h':
+      case '--help':
+        console.log(USAGE);
+        return 0;
+      default:
+        if (file !== undefined) {
+          console.error(USAGE);
+          return 1;
+        }
+        file = args[i];
+    }
+  }
+  
+  if (file === undefined) {
+    console.error(USAGE);
+    return 1;
+  }
+  
+  const serde = modulePath ? loadSerde(modulePath) : Serde().standard();
+  const bytes = new Uint8Array(readFileSync(file === '-' ? 0 : file));
+  const inspection = inspect(bytes, serde, { compact });
+  
+  if (json) {
+    console.log(JSON.stringify(inspection, (_, value) => {
+      if (typeof value === 'bigint') return `${value}n`;
+      if (value instanceof Uint8Array) return [...value];
+      return value;
+    }, 2));
+  } else {
+    console.log(formatInspection(inspection));
+  }
+  return inspection.errors.length ? 2 : 0;
+}
+
+function loadSerde(path: string): Serde<any, any> {
+  const exports = require(resolve(path));
+  const serde = exports.serde ?? exports.default ?? exports;
+  if (!serde || typeof serde.deserializeAs !== 'function')
+    throw new Error(`Module ${path} does not export a Serde`);
+  return serde;
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
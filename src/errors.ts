@@ -0,0 +1,36 @@
+//////////////////////////////////////////////////////////////////////
+// Submodule for typed errors
+// Errors thrown while decoding carry the byte offset at which the payload was found to be malformed.
+
+/** Thrown when a payload is truncated, malformed or exceeds the limits of safe mode. */
+export class SerdeDecodeError extends Error {
+  name = 'SerdeDecodeError';
+  
+  constructor(
+    message: string,
+    /** Offset in the payload at which decoding failed. */
+    public readonly offset: number,
+  ) {
+    super(`${message} (at offset ${offset})`);
+  }
+}
+
+/** Native error constructors restored by name. Other errors are restored as `Error` with their original name. */
+export const ERRORS: Record<string, ErrorConstructor> = {
+  Error,
+  EvalError,
+  RangeError,
+  ReferenceError,
+  SyntaxError,
+  TypeError,
+  URIError,
+};
+
+/** Recreate an error from its serialized `name`, `message` & `stack`, constructing only whitelisted `ERRORS`. */
+export function createError(name: string, message: string, stack?: unknown): Error {
+  const con = Object.prototype.hasOwnProperty.call(ERRORS, name) ? ERRORS[name] : Error;
+  const error = new con(message);
+  if (error.name !== name) error.name = name;
+  if (stack !== undefined) error.stack = stack as string;
+  return error;
+}
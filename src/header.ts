@@ -0,0 +1,86 @@
+//////////////////////////////////////////////////////////////////////
+// Submodule for the optional payload envelope
+// Header layout: 4B magic bytes, 1B format version, 1B flags, followed by 1B codec ID if the `compressed` flag is set
+// & 1B checksum algorithm ID if the `checksum` flag is set.
+import { Checksum, CHECKSUMS, Codec, CODECS } from './codec'
+import type Reader from './reader'
+import type Writer from './writer'
+
+/** Magic bytes identifying a serde payload, i.e. ASCII "SRDE". */
+export const MAGIC = new Uint8Array([0x53, 0x52, 0x44, 0x45]);
+/** Version of the wire format written by this library. Version 2 prefixes strings with their UTF-8 byte length rather
+ * than their UTF-16 length, and aligns binary data for zero-copy reads or references separately stored chunks.
+ * Version 3 precedes objects & arrays with flags, preserving holes, other properties of arrays, null prototypes &
+ * frozen, sealed or non-extensible objects.
+ */
+export const FORMAT_VERSION = 3;
+/** Oldest format version which is still read natively, i.e. without registered upgrades. */
+export const NATIVE_FORMAT_VERSION = 1;
+/** Minimum size of the header in bytes. */
+export const HEADER_SIZE = MAGIC.length + 2;
+
+/** Names of the header flags in order of their bit in the flags byte, starting at the most significant bit. */
+export const HEADER_FLAGS = ['stream', 'compact', 'compressed', 'checksum', 'indexed'] as const;
+export type HeaderFlag = typeof HEADER_FLAGS[number];
+
+export interface Header {
+  /** Version of the wire format of the payload following the header. */
+  version: number;
+  flags: { [flag in HeaderFlag]?: boolean };
+  /** Codec the payload body is compressed with. Requires the `compressed` flag. */
+  codec?: Codec;
+  /** Algorithm of the checksum trailing the payload. Requires the `checksum` flag. */
+  checksum?: Checksum;
+}
+
+/** An upgrade transforms the payload body of one format version into the layout of the next format version. */
+export type Upgrade = (body: Uint8Array, header: Header) => Uint8Array;
+
+export function writeHeader(writer: Writer, { version, flags, codec, checksum }: Header) {
+  writer.writeBytes(MAGIC);
+  writer.writeByte(version);
+  writer.writeFlags(...HEADER_FLAGS.map(flag => !!flags[flag]));
+  if (flags.compressed) writer.writeByte(CODECS[codec!]);
+  if (flags.checksum) writer.writeByte(CHECKSUMS[checksum!]);
+  return writer;
+}
+
+/** Read the header at the reader's cursor. Throws if the magic bytes are missing or the header is unsupported. */
+export function readHeader(reader: Reader): Header {
+  if (!hasHeader(reader.buffer, reader.tell()))
+    throw new Error('Not a serde payload: missing magic bytes');
+  reader.advance(MAGIC.length);
+  
+  const version = reader.readByte();
+  if (version === 0 || version > FORMAT_VERSION)
+    throw new Error(`Unsupported serde format version ${version} (supported: up to ${FORMAT_VERSION})`);
+  
+  const bits = reader.readFlags();
+  const flags: Header['flags'] = {};
+  bits.forEach((bit, i) => {
+    if (!bit) return;
+    if (i >= HEADER_FLAGS.length)
+      throw new Error(`Unsupported serde header flags: 0b${bits.map(Number).join('')}`);
+    flags[HEADER_FLAGS[i]] = true;
+  });
+  
+  const header: Header = { version, flags };
+  if (flags.compressed)
+    header.codec = lookup(CODECS, reader.readByte(), 'codec');
+  if (flags.checksum)
+    header.checksum = lookup(CHECKSUMS, reader.readByte(), 'checksum algorithm');
+  return header;
+}
+
+function lookup<K extends string>(ids: Record<K, number>, id: number, kind: string): K {
+  const name = (Object.keys(ids) as K[]).find(name => ids[name] === id);
+  if (name === undefined)
+    throw new Error(`Unsupported serde ${kind}: ${id}`);
+  return name;
+}
+
+/** Test whether `bytes` start with the magic bytes at `offset`. */
+export function hasHeader(bytes: Uint8Array, offset = 0) {
+  if (bytes.length < offset + HEADER_SIZE) return false;
+  return MAGIC.every((byte, i) => bytes[offset + i] === byte);
+}
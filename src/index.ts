@@ -1,7 +1,27 @@
 export * from './protocol'
 export * from './util'
+export { field, serializable, transient } from './decorators'
+export type { Constructor, SerializableOptions } from './decorators'
 
 export { default as default } from './protocol'
+export { SerdeDecodeError } from './errors'
+export { formatInspection, inspect } from './inspect'
+export type { InspectNode, Inspection } from './inspect'
+export { generateDecoder } from './describe'
+export type { FormatDescription, Layout, SerdeDescription, SubProtocolDescription, VariantDescription } from './describe'
+export type { JSONPayload, JSONSerializeOptions, JSONValue } from './json'
 export { default as Reader } from './reader';
-export { SERDE, SUBSERDE } from './types'
-export { default as Writer } from './writer';
+export { describeSchema, s } from './schema'
+export type { ArraySchema, Fields, Infer, OptionalSchema, Schema, StructSchema, StructValue } from './schema'
+export { Random } from './verify'
+export type { FuzzFailure, FuzzOptions, FuzzReport, Verification, VerifyOptions } from './verify'
+export { ProfileSession } from './perf'
+export type { MeasureStats, Profile } from './perf'
+export { FORMAT_VERSION, MAGIC } from './header'
+export type { Header, HeaderFlag, Upgrade } from './header'
+export type { Checksum, Codec } from './codec'
+export { DEFAULT_LIMITS, SERDE, SUBSERDE } from './types'
+export type { AsyncDeserializer, AsyncSerializer, DecodeLimits, DeserializeOptions, Migration, PayloadIndex, RegistryEntry, SerializeOptions, SubProtocolOptions, VariantOf } from './types'
+export type { StreamOptions, StreamReadOptions, StreamSink, StreamSource } from './stream'
+export { default as Writer, WriterPool } from './writer';
+export type { WriterOptions, WriterPoolOptions } from './writer';
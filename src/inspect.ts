@@ -0,0 +1,240 @@
+//////////////////////////////////////////////////////////////////////
+// Submodule for inspecting serialized payloads
+// Walks the reference records of a payload & decodes their values through a tracing wrapper of the given Serde, which
+// records the offsets of each (nested) value. Decoding errors are recorded rather than thrown.
+import { CHECKSUM_SIZE, checksum, decompress } from './codec'
+import { Header, hasHeader, readHeader } from './header'
+import type Serde from './protocol'
+import Reader from './reader'
+import { DeserializeContext, DeserializeOptions, Reference } from './types'
+
+export interface InspectNode {
+  /** Label of the node, e.g. `#0` for reference records or the subprotocol name of values. */
+  label: string;
+  /** Offset of the node's first byte. Offsets of compressed payloads refer to the decompressed body. */
+  start: number;
+  /** Offset after the node's last byte. */
+  end: number;
+  subprotocol?: string;
+  version?: number;
+  /** Decoded value, where References are kept as such. */
+  value?: unknown;
+  /** Error which aborted decoding this node. */
+  error?: string;
+  /** Raw bytes following `start`, up to `RAW_PREVIEW` bytes, of nodes which failed to decode. */
+  raw?: Uint8Array;
+  children: InspectNode[];
+}
+
+export interface Inspection {
+  header?: Header;
+  /** Number of reference records as written to the payload. Undefined for the stream layout. */
+  count?: number;
+  records: InspectNode[];
+  /** Errors which concern the payload as a whole, e.g. checksum mismatches or dangling references. */
+  errors: string[];
+}
+
+/** Maximum number of raw bytes shown of nodes which failed to decode. */
+export const RAW_PREVIEW = 32;
+
+/** Inspect the payload `bytes` as written by `serde`. Never throws on malformed payloads, but records errors in the
+ * returned inspection instead. Records following an undecodable record of the buffered layout cannot be located &
+ * are skipped.
+ */
+export function inspect(bytes: Uint8Array, serde: Serde<any, any>, options: DeserializeOptions = {}): Inspection {
+  const result: Inspection = { records: [], errors: [] };
+  const tracer = new Tracer(serde);
+  const ctx = new DeserializeContext(tracer.serde, undefined, options);
+  let reader = new Reader(bytes);
+  
+  try {
+    if (hasHeader(bytes)) {
+      const header = result.header = ctx.header = readHeader(reader);
+      ctx.version = header.version;
+      if (header.checksum) {
+        const end = bytes.length - CHECKSUM_SIZE[header.checksum];
+        if (checksum(header.checksum, bytes.subarray(0, end)) !== new Reader(bytes, end).readUInt32())
+          result.errors.push('Checksum mismatch');
+        reader = new Reader(bytes.subarray(0, end), reader.tell());
+      }
+      if (header.codec)
+        reader = new Reader(decompress(header.codec, bytes.subarray(reader.tell(), reader.buffer.length)));
+    }
+    reader.compact = !!(ctx.header ? ctx.header.flags.compact : options.compact);
+  } catch (err: any) {
+    result.errors.push(err.message);
+    return result;
+  }
+  
+  const defined = new Set<number>();
+  if (ctx.header?.flags.stream) {
+    let ended = false;
+    while (!ended && reader.remaining() >= 4) {
+      const length = reader.readUInt32();
+      if (length === 0) {
+        ended = true;
+        break;
+      }
+      const end = Math.min(reader.tell() + length, reader.buffer.length);
+      const record = tracer.record(ctx, new Reader(reader.buffer.subarray(0, end), reader.tell()), defined);
+      result.records.push(record);
+      reader.seek(end);
+      if (hasError(record))
+        result.errors.push(`Failed to decode record ${record.label}`);
+      else if (record.end !== end)
+        result.errors.push(`Frame length mismatch of record ${record.label}: expected ${length} bytes, read ${record.end - record.start}`);
+    }
+    if (!ended)
+      result.errors.push('Stream ended before its end marker');
+  }
+  else {
+    try {
+      result.count = reader.readUInt32();
+    } catch (err: any) {
+      result.errors.push(err.message);
+      return result;
+    }
+    for (let i = 0; i < result.count; ++i) {
+      const record = tracer.record(ctx, reader, defined);
+      result.records.push(record);
+      if (hasError(record)) {
+        result.errors.push(`Failed to decode record ${record.label}`);
+        if (i + 1 < result.count)
+          result.errors.push(`Skipped ${result.count - i - 1} records following the undecodable record`);
+        return result;
+      }
+    }
+    // the index table of indexed payloads follows the records
+    if (reader.remaining() && !ctx.header?.flags.indexed)
+      result.errors.push(`${reader.remaining()} trailing bytes`);
+  }
+  
+  for (const id of tracer.referenced) {
+    if (!defined.has(id))
+      result.errors.push(`Reference ID not found: ${id}`);
+  }
+  return result;
+}
+
+/** Format an inspection as annotated tree, one node per line prefixed with its offsets. */
+export function formatInspection({ header, count, records, errors }: Inspection) {
+  const lines: string[] = [];
+  if (header) {
+    const flags = Object.keys(header.flags).filter(flag => header.flags[flag as keyof Header['flags']]);
+    const extras = [header.codec && `codec ${header.codec}`, header.checksum && `checksum ${header.checksum}`].filter(Boolean);
+    lines.push(`header  version ${header.version}, flags [${flags.join(', ')}]${extras.map(extra => `, ${extra}`).join('')}`);
+  }
+  if (count !== undefined)
+    lines.push(`references  ${count}`);
+  
+  const visit = (node: InspectNode, depth: number) => {
+    const offsets = `${hex(node.start)}..${hex(node.end)}`;
+    const version = node.version ? ` v${node.version}` : '';
+    const value = 'value' in node ? `  ${summarize(node.value)}` : '';
+    const error = node.error ? `  !! ${node.error}` : '';
+    lines.push(`${offsets}  ${'  '.repeat(depth)}${node.label}${version}${value}${error}`);
+    if (node.raw)
+      lines.push(`${' '.repeat(offsets.length)}  ${'  '.repeat(depth + 1)}raw ${[...node.raw].map(byte => byte.toString(16).padStart(2, '0')).join(' ')}`);
+    node.children.forEach(child => visit(child, depth + 1));
+  };
+  records.forEach(record => visit(record, 0));
+  
+  errors.forEach(error => lines.push(`!! ${error}`));
+  return lines.join('\n');
+}
+
+/** Wraps a Serde to record a tree of the values decoded through it. */
+class Tracer {
+  serde: Serde<any, any>;
+  referenced = new Set<number>();
+  private stack: InspectNode[] = [];
+  /** Errors which have already been attributed to the node they occurred in. */
+  private attributed = new WeakSet<object>();
+  
+  constructor(base: Serde<any, any>) {
+    const tracer = this;
+    this.serde = Object.create(base, {
+      deserialize: {
+        value(source: Reader, ctx: DeserializeContext) {
+          return tracer.trace(source, () => base.deserialize.call(this, source, ctx), true);
+        },
+      },
+      deserializeAs: {
+        value(subprotocol: string, source: Reader, ctx: DeserializeContext, version?: number) {
+          const top = tracer.stack[tracer.stack.length - 1];
+          // the tagged value opened by `deserialize` above, now that its tag has been read
+          if (top && top.subprotocol === undefined && top.label === '') {
+            top.label = top.subprotocol = subprotocol;
+            top.version = version;
+            return base.deserializeAs.call(this, subprotocol, source, ctx, version);
+          }
+          return tracer.trace(source, () => base.deserializeAs.call(this, subprotocol, source, ctx, version), false, subprotocol, version);
+        },
+      },
+    });
+  }
+  
+  /** Read a single reference record, recording any error in the returned node. */
+  record(ctx: DeserializeContext, reader: Reader, defined: Set<number>): InspectNode {
+    const node: InspectNode = { label: '#?', start: reader.tell(), end: reader.tell(), children: [] };
+    this.stack = [node];
+    try {
+      const id = reader.readUInt();
+      node.label = `#${id}`;
+      defined.add(id);
+      if (reader.readBool()) node.label += ' (retargeted)';
+      this.serde.deserialize(reader, ctx);
+    } catch (err: any) {
+      if (!this.attributed.has(err)) this.fail(node, reader, err);
+    }
+    node.end = reader.tell();
+    return node;
+  }
+  
+  private trace(reader: Reader, decode: () => unknown, tagged: boolean, subprotocol?: string, version?: number) {
+    const node: InspectNode = { label: subprotocol ?? '', start: reader.tell(), end: reader.tell(), subprotocol, version, children: [] };
+    this.stack[this.stack.length - 1].children.push(node);
+    this.stack.push(node);
+    try {
+      const value = decode();
+      node.value = value;
+      if (value instanceof Reference) this.referenced.add(value.id);
+      return value;
+    } catch (err: any) {
+      if (!this.attributed.has(err)) {
+        if (tagged && !node.label) node.label = '<unknown>';
+        this.fail(node, reader, err);
+      }
+      throw err;
+    } finally {
+      node.end = reader.tell();
+      this.stack.pop();
+    }
+  }
+  
+  private fail(node: InspectNode, reader: Reader, err: any) {
+    node.error = err.message;
+    node.raw = reader.buffer.slice(node.start, node.start + RAW_PREVIEW);
+    if (err && typeof err === 'object') this.attributed.add(err);
+  }
+}
+
+/** Summarize a decoded value in a single line. */
+function summarize(value: unknown): string {
+  if (value instanceof Reference) return `-> #${value.id}`;
+  if (typeof value === 'string') return JSON.stringify(value.length > 64 ? value.slice(0, 64) + '…' : value);
+  if (typeof value === 'bigint') return `${value}n`;
+  if (value === null || typeof value !== 'object') return String(value);
+  if (Array.isArray(value)) return `Array(${value.length})`;
+  // entries of maps & sets are only added once their references are resolved
+  if (value instanceof Map || value instanceof Set) return value.constructor.name;
+  if (ArrayBuffer.isView(value)) return `${value.constructor.name}(${value.byteLength} bytes)`;
+  if (value instanceof ArrayBuffer) return `ArrayBuffer(${value.byteLength} bytes)`;
+  if (value instanceof Date || value instanceof RegExp || value instanceof Error) return String(value);
+  const name = Object.getPrototypeOf(value)?.constructor?.name;
+  return `${name && name !== 'Object' ? name + ' ' : ''}{${Object.keys(value).join(', ')}}`;
+}
+
+const hasError = (node: InspectNode): boolean => !!node.error || node.children.some(hasError);
+const hex = (offset: number) => offset.toString(16).padStart(4, '0');
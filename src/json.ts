@@ -0,0 +1,278 @@
+//////////////////////////////////////////////////////////////////////
+// Submodule for the JSON backend
+// Layout: `{ "$serde": "json", "refs": [...] }` where `refs[id]` is the value of reference `id` & `refs[0]` the root.
+// Objects nested in values are replaced by `{ "$ref": id }`. Values without a native JSON representation are tagged as
+// `{ "$type": subprotocol, ... }`: standard subprotocols carry a `$value`, `setSimple` subprotocols their `$data` and
+// all other subprotocols the bytes written by their binary serializer as base64 `$bin`. Keys of plain objects
+// starting with `$` are escaped with another `$`.
+import { createError } from './errors'
+import type Serde from './protocol'
+import Reader from './reader'
+import { DeserializeContext, Reference, SerializeContext, SubProtocol } from './types'
+import { setEntry } from './util'
+import Writer from './writer'
+
+export type JSONValue = null | boolean | number | string | JSONValue[] | { [key: string]: JSONValue };
+
+export interface JSONPayload {
+  $serde: 'json';
+  refs: JSONValue[];
+}
+
+export interface JSONSerializeOptions {
+  /** Indentation passed on to `JSON.stringify`. */
+  space?: string | number;
+}
+
+type Encode = (value: unknown) => JSONValue;
+type Decode = (json: JSONValue) => unknown;
+type Deref = DeserializeContext['deref'];
+
+interface JSONCodec<T = any> {
+  encode(value: T, encode: Encode): JSONValue;
+  decode(json: any, decode: Decode, deref: Deref): T;
+}
+
+const TYPEDARRAYS = [
+  Int8Array, Uint8Array, Uint8ClampedArray, Int16Array, Uint16Array, Int32Array, Uint32Array,
+  Float32Array, Float64Array, BigInt64Array, BigUint64Array,
+];
+
+/** Representations of the standard subprotocols without native JSON representation. */
+const CODECS: Record<string, JSONCodec> = {
+  bigint: {
+    encode: (value: bigint) => value.toString(),
+    decode: json => BigInt(json),
+  },
+  regex: {
+    encode: (value: RegExp) => [value.source, value.flags],
+    decode: ([source, flags]) => new RegExp(source, flags),
+  },
+  set: {
+    encode: (value: Set<unknown>, encode) => [...value].map(encode),
+    decode: (json: JSONValue[], decode, deref) => {
+      const result = new Set();
+      json.forEach(item => deref(decode(item), item => result.add(item)));
+      return result;
+    },
+  },
+  map: {
+    encode: (value: Map<unknown, unknown>, encode) => [...value].map(([key, value]) => [encode(key), encode(value)]),
+    decode: (json: [JSONValue, JSONValue][], decode, deref) => {
+      const result = new Map();
+      json.forEach(([key, value]) => {
+        Reference.all(deref, [decode(key), decode(value)], ([key, value]) => { result.set(key, value) });
+      });
+      return result;
+    },
+  },
+  date: {
+    encode: (value: Date) => isNaN(value.getTime()) ? null : value.toISOString(),
+    decode: json => new Date(json ?? NaN),
+  },
+  error: {
+    encode: (value: Error, encode) => ({
+      name: String(value.name),
+      message: String(value.message),
+      ...(typeof value.stack === 'string' ? { stack: value.stack } : {}),
+      ...('cause' in value ? { cause: encode((value as any).cause) } : {}),
+    }),
+    decode: ({ name, message, stack, cause }, decode, deref) => {
+      const error = createError(name, message, stack);
+      if (cause !== undefined) {
+        deref(decode(cause), cause => {
+          Object.defineProperty(error, 'cause', { value: cause, writable: true, configurable: true });
+        });
+      }
+      return error;
+    },
+  },
+  url: {
+    encode: (value: URL) => value.href,
+    decode: json => new URL(json),
+  },
+  urlsearchparams: {
+    encode: (value: URLSearchParams) => value.toString(),
+    decode: json => new URLSearchParams(json),
+  },
+  boxed: {
+    encode: (value: object, encode) => encode(value.valueOf()),
+    decode: (json, decode) => Object(decode(json)),
+  },
+  buffer: {
+    encode: (value: Uint8Array) => toBase64(value),
+    decode: json => (globalThis as any).Buffer.from(fromBase64(json)),
+  },
+  arraybuffer: {
+    encode: (value: ArrayBuffer) => toBase64(new Uint8Array(value)),
+    decode: json => fromBase64(json).buffer,
+  },
+  typedarray: {
+    encode: (value: ArrayBufferView) => {
+      const con = TYPEDARRAYS.find(con => value instanceof con);
+      if (!con) throw new Error('Unsupported TypedArray');
+      return { type: con.name, data: Array.from(value as any, item => typeof item === 'bigint' ? item.toString() : item as number) };
+    },
+    decode: ({ type, data }) => {
+      const con: any = TYPEDARRAYS.find(con => con.name === type);
+      if (!con) throw new Error(`Unsupported TypedArray: ${type}`);
+      return con.from(data, (item: any) => typeof item === 'string' ? BigInt(item) : item);
+    },
+  },
+};
+CODECS.regexp = CODECS.regex;
+
+/** Encode `value` into the JSON layout, reusing the subprotocols registered with `serde`. */
+export function encodeJSON(serde: Serde<any, any>, value: unknown): JSONPayload {
+  const ctx = new SerializeContext(serde);
+  const refs: JSONValue[] = [];
+  ctx.refs.push(value);
+  
+  const encodeValue: Encode = value => {
+    const ref = ctx.ref(value);
+    if (ref instanceof Reference) return { $ref: ref.id };
+    return encodeAs(ctx, serde.getSubProtocolOf(value), value, encodeValue);
+  };
+  
+  let next = ctx.refs.pop();
+  while (next) {
+    const [obj, ref] = next;
+    refs[ref.id] = encodeAs(ctx, ref.subprotocol ?? serde.getSubProtocolOf(obj), obj, encodeValue, !!ref.subprotocol);
+    next = ctx.refs.pop();
+  }
+  return { $serde: 'json', refs };
+}
+
+/** Decode a value from the JSON layout as written by `encodeJSON`. */
+export function decodeJSON(serde: Serde<any, any>, json: JSONPayload) {
+  if (!json || json.$serde !== 'json' || !Array.isArray(json.refs))
+    throw new Error('Not a serde JSON payload');
+  
+  const ctx = new DeserializeContext(serde);
+  const decodeValue: Decode = json => decode(ctx, json, decodeValue);
+  const objs = json.refs.map((item, id) => {
+    const value = decodeValue(item);
+    if (value instanceof Reference)
+      throw new Error(`Reference record #${id} is itself a reference`);
+    return value;
+  });
+  
+  for (const ref of ctx.refs) {
+    if (!(ref.id in objs))
+      throw new Error(`Reference ID not found: ${ref.id}`);
+    ref.substitute(objs[ref.id]);
+  }
+  return objs[0];
+}
+
+function encodeAs(ctx: SerializeContext, subprotocol: string, value: any, encode: Encode, tagged = false): JSONValue {
+  const entry: SubProtocol<any> = ctx.serde.subprotocols[subprotocol];
+  if (!entry)
+    throw new Error(`No such subprotocol: ${subprotocol}`);
+  if (entry.async)
+    throw new Error(`Subprotocol ${subprotocol} is async, which the JSON backend does not support`);
+  
+  const { version } = entry;
+  const tag = { $type: subprotocol, ...(version ? { $v: version } : {}) };
+  
+  switch (subprotocol) {
+    case 'string':
+    case 'boolean':
+    case 'null':
+      return value;
+    case 'undef':
+      return { $type: 'undef' };
+    case 'number':
+      return Number.isFinite(value) && !Object.is(value, -0) ? value : { $type: 'number', $value: Object.is(value, -0) ? '-0' : String(value) };
+    case 'array':
+    case 'object':
+    case 'data-object': {
+      const json = Array.isArray(value)
+        ? value.map(item => typeof item === 'function' || typeof item === 'symbol' ? null : encode(item))
+        : Object.fromEntries(
+            Object.entries(value)
+              .filter(([, value]) => typeof value !== 'function' && typeof value !== 'symbol')
+              .map(([key, value]) => [key.startsWith('$') ? '$' + key : key, encode(value)])
+          );
+      return tagged ? { ...tag, $value: json } : json;
+    }
+  }
+  
+  if (subprotocol in CODECS)
+    return { ...tag, $value: CODECS[subprotocol].encode(value, encode) };
+  if (entry.simple)
+    return { ...tag, $data: encode(entry.simple.toData(value)) };
+  
+  // opaque subprotocols are written by their binary serializer, sharing the references of the JSON payload
+  const writer = new Writer();
+  ctx.serde.serializeAs(subprotocol, value, writer, ctx);
+  return { ...tag, $bin: toBase64(writer.buffer.subarray(0, writer.size)) };
+}
+
+function decode(ctx: DeserializeContext, json: JSONValue, decodeValue: Decode): unknown {
+  if (json === null || typeof json !== 'object')
+    return json;
+  
+  if (Array.isArray(json)) {
+    const result = json.map(decodeValue);
+    substituteAll(ctx, result);
+    return result;
+  }
+  
+  if ('$ref' in json)
+    return new Reference(json.$ref as number);
+  if ('$type' in json)
+    return decodeTagged(ctx, json as any, decodeValue);
+  
+  const result: any = {};
+  for (const [key, value] of Object.entries(json)) {
+    setEntry(result, key.startsWith('$$') ? key.substring(1) : key, decodeValue(value));
+  }
+  substituteAll(ctx, result);
+  return result;
+}
+
+/** Substitute the References among the values of `result` once resolved. References are kept in place until then, as
+ * the rebuild functions of `setSimple` subprotocols dereference their data themselves.
+ */
+function substituteAll(ctx: DeserializeContext, result: any) {
+  for (const [key, value] of Object.entries(result)) {
+    if (value instanceof Reference)
+      ctx.deref(value, obj => { setEntry(result, key, obj) });
+  }
+}
+
+function decodeTagged(ctx: DeserializeContext, json: { $type: string, $v?: number, $value?: any, $data?: JSONValue, $bin?: string }, decodeValue: Decode) {
+  const { $type: subprotocol, $v: version = 0 } = json;
+  if (subprotocol === 'undef') return undefined;
+  if (subprotocol === 'number') return Number(json.$value);
+  
+  const entry: SubProtocol<any> = ctx.serde.subprotocols[subprotocol];
+  if (!entry)
+    throw new Error(`No such subprotocol: ${subprotocol}`);
+  if (version > entry.version)
+    throw new Error(`Payload of subprotocol ${subprotocol} has version ${version}, but only up to ${entry.version} is known`);
+  
+  if ('$bin' in json)
+    return ctx.serde.deserializeAs(subprotocol, new Reader(fromBase64(json.$bin!)), ctx, version);
+  if ('$data' in json) {
+    if (!entry.simple)
+      throw new Error(`Subprotocol ${subprotocol} is not a simple subprotocol`);
+    return entry.simple.fromData(ctx, decodeValue(json.$data!), version);
+  }
+  if (subprotocol in CODECS)
+    return CODECS[subprotocol].decode(json.$value, decodeValue, ctx.deref);
+  return decodeValue(json.$value);
+}
+
+function toBase64(bytes: Uint8Array) {
+  const { Buffer } = globalThis as any;
+  if (Buffer) return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64');
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(text: string): Uint8Array {
+  const { Buffer } = globalThis as any;
+  if (Buffer) return new Uint8Array(Buffer.from(text, 'base64'));
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
@@ -0,0 +1,99 @@
+//////////////////////////////////////////////////////////////////////
+// Submodule for random access into indexed payloads
+// Records of objects & arrays are represented by proxies which decode their record upon first access. Records of
+// other subprotocols are decoded as soon as they are reached, as their values generally cannot be proxied, e.g. due to
+// the internal slots of Maps & Sets.
+import { DeserializeContext } from './types'
+
+/** Random access to the records of an indexed payload. */
+export interface LazyRecords {
+  /** Create the proxy target of record `id`, i.e. an empty object or array, or undefined if the record must be decoded
+   * eagerly.
+   */
+  targetOf(id: number): object | undefined;
+  /** Decode record `id`, collecting the references within it in `ctx.refs`. */
+  decode(id: number): unknown;
+}
+
+/** Open the records of an indexed payload, returning the root value. References are resolved on demand. */
+export function openLazy(ctx: DeserializeContext, records: LazyRecords) {
+  /** Value of each record reached so far, i.e. either its proxy or its decoded value. */
+  const values = new Map<number, unknown>();
+  const decoded = new Map<number, unknown>();
+
+  const resolve = (id: number): unknown => {
+    if (values.has(id)) return values.get(id);
+
+    const target = records.targetOf(id);
+    if (target) {
+      const proxy = lazyProxy(target, () => decode(id));
+      values.set(id, proxy);
+      return proxy;
+    }
+    return decode(id);
+  };
+
+  const decode = (id: number) => {
+    if (decoded.has(id)) return decoded.get(id);
+
+    // nested decodes below collect their own references & finalizers
+    const refs = ctx.refs = new Set();
+    const finalizers: (() => void)[] = ctx.finalizers = [];
+    const value = records.decode(id);
+    decoded.set(id, value);
+    if (!values.has(id)) values.set(id, value);
+    // registered only now so cyclic references resolve to the value decoded above
+    for (const ref of refs) {
+      ref.substitute(resolve(ref.id));
+    }
+    for (const finalize of finalizers) {
+      finalize();
+    }
+    return value;
+  };
+
+  return resolve(0);
+}
+
+/** Create a proxy which forwards to the value returned by `load`, calling it upon first access. `target` determines
+ * the type of the proxy, i.e. whether it is an array.
+ */
+function lazyProxy(target: object, load: () => any) {
+  let loaded = false;
+  let mirrored = false;
+  let value: any;
+  // proxies may only report being non-extensible, sealed or frozen alike their target
+  const mirror = () => {
+    Object.defineProperties(target, Object.getOwnPropertyDescriptors(value));
+    mirrored = true;
+    return Reflect.preventExtensions(target);
+  };
+  const get = () => {
+    if (!loaded) {
+      value = load();
+      loaded = true;
+      if (!Object.isExtensible(value)) mirror();
+    }
+    return value;
+  };
+
+  return new Proxy(target, {
+    get: (_, key) => Reflect.get(get(), key),
+    set: (_, key, item) => Reflect.set(get(), key, item),
+    has: (_, key) => Reflect.has(get(), key),
+    deleteProperty: (target, key) => Reflect.deleteProperty(get(), key) && (!mirrored || Reflect.deleteProperty(target, key)),
+    ownKeys: () => Reflect.ownKeys(get()),
+    isExtensible: target => (get(), Reflect.isExtensible(target)),
+    preventExtensions: () => Reflect.preventExtensions(get()) && (mirrored || mirror()),
+    getOwnPropertyDescriptor: (target, key) => {
+      const descriptor = Reflect.getOwnPropertyDescriptor(get(), key);
+      // proxies may only report properties of their target as non-configurable
+      if (descriptor && !Reflect.getOwnPropertyDescriptor(target, key))
+        descriptor.configurable = true;
+      return descriptor;
+    },
+    defineProperty: (target, key, descriptor) =>
+      Reflect.defineProperty(get(), key, descriptor) && (!mirrored || Reflect.defineProperty(target, key, descriptor)),
+    getPrototypeOf: () => Reflect.getPrototypeOf(get()),
+  });
+}
@@ -1,41 +1,148 @@
 //////////////////////////////////////////////////////////////////////
 // Submodule for performance measuring
+// Measures are aggregated into the stats of every active session as they are recorded. Call sites check `enabled`
+// before measuring, so nothing is measured, timed or allocated while no session is active.
 const perf = globalThis.performance;
-const measures: Record<string, Measure[]> = {};
-let enabled = false;
-
-type Measure = {
-  name: string;
-  startTime: number;
-  duration: number;
-  detail?: any;
+
+/** Maximum number of durations sampled per measure to estimate its percentiles. */
+export const MAX_SAMPLES = 1024;
+
+export interface MeasureStats {
+  calls: number;
+  /** Number of calls which threw. */
+  errors: number;
+  /** Durations in milliseconds. Percentiles are estimated from up to `MAX_SAMPLES` randomly sampled calls. */
+  total: number;
+  mean: number;
+  min: number;
+  max: number;
+  p50: number;
+  p99: number;
+  /** Number of calls sampled to estimate the percentiles, at most `MAX_SAMPLES`. */
+  samples: number;
+  /** Bytes written resp. read, or by which the buffer grew for `Writer.resize`. */
+  bytes: number;
+}
+
+export interface Profile {
+  /** Stats of de/serializing values of each subprotocol, including their nested values. */
+  subprotocols: Record<string, { serialize?: MeasureStats, deserialize?: MeasureStats }>;
+  /** Stats of all other measures: `serialize`, `deserialize`, `writeReferences`, `writeReferences.findNext`,
+   * `readReferences` & `Writer.resize`.
+   */
+  measures: Record<string, MeasureStats>;
+  /** Number of times a Writer grew its buffer. */
+  resizes: number;
+}
+
+/** Whether any session is active. */
+export let enabled = false;
+const sessions = new Set<ProfileSession>();
+
+type Accumulator = Omit<MeasureStats, 'mean' | 'p50' | 'p99' | 'samples'> & { samples: number[] };
+
+/** Collects the stats of all measures recorded while active. Sessions are independent of one another. */
+export class ProfileSession {
+  private stats = new Map<string, Accumulator>();
+  
+  get active() { return sessions.has(this) }
+  
+  start() {
+    sessions.add(this);
+    enabled = true;
+    return this;
+  }
+  
+  /** Deactivate this session & return its profile. */
+  stop() {
+    sessions.delete(this);
+    enabled = sessions.size > 0;
+    return this.report();
+  }
+  
+  reset() {
+    this.stats.clear();
+    return this;
+  }
+  
+  record(name: string, duration: number, bytes: number, failed: boolean) {
+    let acc = this.stats.get(name);
+    if (!acc) {
+      acc = { calls: 0, errors: 0, total: 0, min: Infinity, max: 0, bytes: 0, samples: [] };
+      this.stats.set(name, acc);
+    }
+    ++acc.calls;
+    if (failed) ++acc.errors;
+    acc.total += duration;
+    acc.min = Math.min(acc.min, duration);
+    acc.max = Math.max(acc.max, duration);
+    acc.bytes += bytes;
+    
+    // reservoir sampling keeps a uniform sample of all calls
+    if (acc.samples.length < MAX_SAMPLES) {
+      acc.samples.push(duration);
+    } else {
+      const index = Math.floor(Math.random() * acc.calls);
+      if (index < MAX_SAMPLES) acc.samples[index] = duration;
+    }
+  }
+  
+  report(): Profile {
+    const profile: Profile = { subprotocols: {}, measures: {}, resizes: 0 };
+    for (const [name, { samples, ...acc }] of this.stats) {
+      const sorted = [...samples].sort((a, b) => a - b);
+      const stats: MeasureStats = {
+        ...acc,
+        mean: acc.total / acc.calls,
+        p50: percentile(sorted, 0.5),
+        p99: percentile(sorted, 0.99),
+        samples: samples.length,
+      };
+      
+      const match = name.match(/^\[(.*)\]\.(serialize|deserialize)$/);
+      if (match) {
+        const [, subprotocol, operation] = match;
+        (profile.subprotocols[subprotocol] ??= {})[operation as 'serialize' | 'deserialize'] = stats;
+      } else {
+        profile.measures[name] = stats;
+      }
+    }
+    profile.resizes = profile.measures['Writer.resize']?.calls ?? 0;
+    return profile;
+  }
+}
+
+/** Session of `Serde.measurePerformance`. */
+export const globalSession = new ProfileSession();
+
+export const now = () => perf?.now() || Date.now();
+
+/** Record a measure started at `start` in all active sessions. */
+export function record(name: string, start: number, bytes = 0, failed = false) {
+  const duration = now() - start;
+  for (const session of sessions) {
+    session.record(name, duration, bytes, failed);
+  }
 }
 
-export function measure<R>(name: string, callback: () => R) {
-  const t0 = perf?.now() || Date.now();
+/** Measure `callback` & the bytes by which `cursor` advanced. Only call while `enabled`. */
+export function measure<R>(name: string, callback: () => R, cursor?: { tell(): number }) {
+  const t0 = now();
+  const offset = cursor?.tell() ?? 0;
+  let failed = true;
   try {
     const result = callback();
-    const t1 = perf?.now() || Date.now();
-    pushMeasure(name, t0, t1);
+    failed = false;
     return result;
-  } catch (err) {
-    const t1 = perf?.now() || Date.now();
-    pushMeasure(name, t0, t1, err);
-    throw err;
+  } finally {
+    record(name, t0, cursor ? cursor.tell() - offset : 0, failed);
   }
 }
 
-function pushMeasure(name: string, t0: number, t1: number, detail?: any) {
-  if (!enabled) return;
-  if (!(name in measures)) measures[name] = [];
-  measures[name].push({
-    name,
-    startTime: t0,
-    duration: t1-t0,
-    detail,
-  });
-}
+export const enable  = () => {globalSession.start()};
+export const disable = () => {globalSession.stop()};
 
-export const enable  = () => {enabled = true};
-export const disable = () => {enabled = false};
-export const getMeasures = () => measures;
+function percentile(sorted: number[], p: number) {
+  if (!sorted.length) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
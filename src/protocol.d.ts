@@ -1,6 +1,14 @@
+import type { Constructor } from './decorators'
+import type { SerdeDescription } from './describe'
+import type { Upgrade } from './header'
+import type { JSONPayload, JSONSerializeOptions } from './json'
+import type { Profile, ProfileSession } from './perf'
 import Reader from './reader';
-import type { DataObject, DataWrapper, DeserializeContext, DeserializedData, Deserializer, Reference, SerializeContext, Serializer, TypeMap } from './types'
-import Writer from './writer';
+import type { Infer, Schema } from './schema'
+import type { StreamOptions, StreamReadOptions, StreamSink, StreamSource } from './stream'
+import type { AsyncDeserializer, AsyncSerializer, DataObject, DataWrapper, DeserializeContext, DeserializedData, DeserializeOptions, Deserializer, Migration, Reference, RegistryEntry, SerializeContext, SerializeOptions, Serializer, SubProtocol, SubProtocolOptions, TypeMap, VariantOf } from './types'
+import type { FuzzOptions, FuzzReport, Verification, VerifyOptions } from './verify'
+import Writer, { WriterPool } from './writer';
 
 export type StandardProtocolMap = {
   boolean: boolean,
@@ -13,6 +21,11 @@ export type StandardProtocolMap = {
   regexp: RegExp,
   set: Set<unknown>,
   map: Map<unknown, unknown>,
+  date: Date,
+  error: Error,
+  url: URL,
+  urlsearchparams: URLSearchParams,
+  boxed: Number | String | Boolean | BigInt,
   buffer: Buffer,
   arraybuffer: ArrayBuffer,
   typedarray: ArrayBufferView,
@@ -30,15 +43,30 @@ type MappedConstructor<Map extends TypeMap> = {
 type Serde<Map extends TypeMap, Ctx = {}> =
   {
     ctx: Ctx;
+    subprotocols: { [subprotocol: string]: SubProtocol<any> };
     
-    getSubprotocolOf(value: any): string;
+    getSubProtocolOf(value: any): string;
     
+    serialize(
+      value: Map[keyof Map],
+      options?: SerializeOptions,
+    ): Uint8Array;
     serialize(
       value: Map[keyof Map],
       writer?: Writer,
       ctx?: SerializeContext<Map, Ctx>,
     ): Uint8Array;
     
+    /** Serialize `value` directly into `target` starting at `offset`, e.g. into caller-owned or `SharedArrayBuffer`
+     * memory. Returns the number of bytes written. Throws if `target` is too small.
+     */
+    serializeInto(value: Map[keyof Map], target: Uint8Array, offset?: number, options?: SerializeOptions): number;
+    
+    serializeAs<P extends keyof Map = keyof Map>(
+      subprotocol: P,
+      value: Map[P],
+      options?: SerializeOptions,
+    ): Writer;
     serializeAs<P extends keyof Map = keyof Map>(
       subprotocol: P,
       value: Map[P],
@@ -46,28 +74,126 @@ type Serde<Map extends TypeMap, Ctx = {}> =
       ctx?: SerializeContext<Map, Ctx>,
     ): Writer;
     
-    deserialize(bytes: Uint8Array): any;
-    deserialize(reader: Reader, ctx?: DeserializeContext<Map, Ctx>): any;
+    deserialize(bytes: Uint8Array, options?: DeserializeOptions): any;
+    deserialize(reader: Reader, ctx?: DeserializeContext<Map, Ctx> | DeserializeOptions): any;
     
     deserializeAs<P extends keyof Map = keyof Map>(
       subprotocol: P,
       source: Uint8Array | Reader,
-      ctx?: DeserializeContext<Map, Ctx>,
+      ctx?: DeserializeContext<Map, Ctx> | DeserializeOptions,
+      version?: number,
     ): Map[P];
     
+    /** Serialize `value` like `serialize`, awaiting subprotocols registered with `setAsync`. */
+    serializeAsync(
+      value: Map[keyof Map],
+      options?: SerializeOptions,
+    ): Promise<Uint8Array>;
+    serializeAsync(
+      value: Map[keyof Map],
+      writer?: Writer,
+      ctx?: SerializeContext<Map, Ctx>,
+    ): Promise<Uint8Array>;
+    
+    /** Deserialize a value like `deserialize`, awaiting subprotocols registered with `setAsync`. */
+    deserializeAsync(bytes: Uint8Array, options?: DeserializeOptions): Promise<any>;
+    deserializeAsync(reader: Reader, ctx?: DeserializeContext<Map, Ctx> | DeserializeOptions): Promise<any>;
+    
+    /** Serialize `value` to `sink` in the stream layout, emitting chunks as references are written. */
+    serializeStream(
+      value: Map[keyof Map],
+      sink: StreamSink,
+      options?: StreamOptions,
+    ): Promise<void>;
+    
+    /** Deserialize a value from `source` in the stream layout, restoring references as their records arrive. */
+    deserializeStream(source: StreamSource, options?: StreamReadOptions): Promise<any>;
+    
+    /** Open an indexed payload for random access. Returns the root value, whose object & array records are decoded
+     * upon first access. See `SerializeOptions.index`.
+     */
+    open(bytes: Uint8Array, options?: DeserializeOptions): any;
+    
+    /** Serialize `value` to JSON text with `$ref`/`$type` markers, reusing the registered subprotocols. */
+    serializeJSON(value: Map[keyof Map], options?: JSONSerializeOptions): string;
+    
+    /** Deserialize a value from JSON text or its parsed object as written by `serializeJSON`. */
+    deserializeJSON(json: string | JSONPayload): any;
+    
+    /** Encode the changes from `prev` to `next` as a binary patch in terms of reference IDs & property keys. */
+    diff(prev: Map[keyof Map], next: Map[keyof Map]): Uint8Array;
+    
+    /** Apply a patch as written by `diff` to a copy of its previous value in place, keeping object identities. Returns
+     * the patched root.
+     */
+    patch(prev: any, bytes: Uint8Array): any;
+    
+    /** Register an upgrade path which transforms payload bodies of format `version` into the next format version. */
+    upgrade(version: number, upgrade: Upgrade): Serde<Map, Ctx>;
+    
+    /** Resolve the subprotocol identified by the given hash or explicit ID on the wire. */
+    protocolFromHash(hash: number): keyof Map & string;
+    
+    /** List the registered subprotocols along with the IDs identifying them on the wire, ordered by ID. */
+    registry(): RegistryEntry[];
+    
+    /** Describe the wire format & all registered subprotocols, including their layout where known, as plain JSON data. */
+    describe(): SerdeDescription;
+    
+    /** Generate the TypeScript source of a standalone module which decodes payloads of this Serde without it. */
+    generateDecoder(): string;
+    
+    /** Round-trip `value` & report every difference between it & the result, as well as subprotocols which read
+     * another number of bytes than they wrote.
+     */
+    verify(value: Map[keyof Map], options?: VerifyOptions): Verification;
+    
+    /** Verify random values of every subprotocol & decode random mutations of their payloads in safe mode. */
+    fuzz(options?: FuzzOptions): FuzzReport;
+    
     set<P extends keyof Map = keyof Map>(
       subprotocol: P,
       serialize: Serializer<Map[P], Map, Ctx>,
       deserialize: Deserializer<Map[P], Map, Ctx>,
-      force?: boolean,
+      options?: boolean | SubProtocolOptions,
     ): Serde<Map, Ctx>;
     
     setSimple<P extends keyof Map = keyof Map, D = any>(
       subprotocol: P,
       filter: (value: Map[P], data: DataWrapper) => D,
       rebuild: (data: DeserializedData<D>, deref: DeserializeContext['deref']) => Map[P],
-      force?: boolean
+      options?: boolean | SubProtocolOptions,
+    ): Serde<Map, Ctx>;
+    
+    /** Register a subprotocol whose de/serializer may return promises. Only supported by the async & stream methods. */
+    setAsync<P extends keyof Map = keyof Map>(
+      subprotocol: P,
+      serialize: AsyncSerializer<Map[P], Map, Ctx>,
+      deserialize: AsyncDeserializer<Map[P], Map, Ctx>,
+      options?: boolean | SubProtocolOptions,
+    ): Serde<Map, Ctx>;
+    
+    /** Register a variant of `subprotocol`, selected by the `[SUBSERDE]` property of its values. */
+    setVariant<P extends keyof Map = keyof Map, V extends string = string>(
+      subprotocol: P,
+      variant: V,
+      serialize: Serializer<VariantOf<Map[P], V>, Map, Ctx>,
+      deserialize: Deserializer<VariantOf<Map[P], V>, Map, Ctx>,
+      force?: boolean,
+    ): Serde<Map, Ctx>;
+    
+    /** Register subprotocols for the given classes decorated with `@serializable`, or all decorated classes. */
+    setDecorated(...classes: Constructor[]): Serde<Map, Ctx>;
+    
+    /** Register a subprotocol whose layout is described by `schema`. */
+    setSchema<P extends keyof Map = keyof Map>(
+      subprotocol: P,
+      schema: Schema<Map[P]>,
+      options?: boolean | SubProtocolOptions,
     ): Serde<Map, Ctx>;
+    
+    /** Register a migration which upgrades the data of a `setSimple` subprotocol from `version` to `version + 1`. */
+    migrate(subprotocol: keyof Map, version: number, migration: Migration): Serde<Map, Ctx>;
   }
   & (
     Map extends StandardProtocolMap
@@ -77,20 +203,46 @@ type Serde<Map extends TypeMap, Ctx = {}> =
     : {}
   )
 
-type SerdeAlter<Map extends TypeMap, Ctx = {}> = Omit<Serde<Map, Ctx>, 'set' | 'setSimple'> & {
+type SerdeAlter<Map extends TypeMap, Ctx = {}> = Omit<Serde<Map, Ctx>, 'set' | 'setSimple' | 'setAsync' | 'setVariant' | 'setDecorated' | 'setSchema' | 'migrate' | 'upgrade'> & {
   set<T, P extends string>(
     subprotocol: P,
     serialize: Serializer<T, any, Ctx>,
     deserialize: Deserializer<T, any, Ctx>,
-    force?: boolean,
+    options?: boolean | SubProtocolOptions,
   ): SerdeAlter<Map & { [p in P]: T }, Ctx>;
   
   setSimple<T, P extends string, D>(
     subprotocol: P,
     filter: (value: T, data: DataWrapper) => D,
     rebuild: (data: DeserializedData<D>, deref: DeserializeContext['deref']) => T,
-    force?: boolean,
+    options?: boolean | SubProtocolOptions,
+  ): SerdeAlter<Map & { [p in P]: T }, Ctx>;
+  
+  setAsync<T, P extends string>(
+    subprotocol: P,
+    serialize: AsyncSerializer<T, any, Ctx>,
+    deserialize: AsyncDeserializer<T, any, Ctx>,
+    options?: boolean | SubProtocolOptions,
   ): SerdeAlter<Map & { [p in P]: T }, Ctx>;
+  
+  setVariant<T, P extends string, V extends string>(
+    subprotocol: P,
+    variant: V,
+    serialize: Serializer<T, any, Ctx>,
+    deserialize: Deserializer<T, any, Ctx>,
+    force?: boolean,
+  ): SerdeAlter<Omit<Map, P> & { [p in P]: (P extends keyof Map ? Map[P] : never) | T }, Ctx>;
+  
+  setDecorated(...classes: Constructor[]): SerdeAlter<Map, Ctx>;
+  
+  setSchema<P extends string, S extends Schema<any>>(
+    subprotocol: P,
+    schema: S,
+    options?: boolean | SubProtocolOptions,
+  ): SerdeAlter<Map & { [p in P]: Infer<S> }, Ctx>;
+  
+  migrate(subprotocol: keyof Map, version: number, migration: Migration): SerdeAlter<Map, Ctx>;
+  upgrade(version: number, upgrade: Upgrade): SerdeAlter<Map, Ctx>;
 }
 
 interface SerdeConstructor {
@@ -101,10 +253,26 @@ interface SerdeConstructor {
   
   Mapped<M extends TypeMap>(): MappedConstructor<M>;
   
-  /** Measure the performance of various points of interest using the `Performance` API. Depends on the global
-   * `performance` variable. If not defined, does nothing.
+  /** Start or stop measuring the performance of various points of interest into the global profile, using the global
+   * `performance` if defined. Measuring costs nothing while stopped.
+   */
+  measurePerformance(enable?: boolean): void;
+  
+  /** Pool of the Writers `serialize` & `serializeAsync` write into unless given a Writer. Set to undefined to allocate
+   * a new Writer per payload instead.
+   */
+  writerPool: WriterPool | undefined;
+  
+  /** Aggregated stats of all measures recorded by `measurePerformance` since started or last reset. */
+  profile(): Profile;
+  
+  /** Discard the stats of the global profile. */
+  resetProfile(): void;
+  
+  /** Start a profiling session independent of the global profile & other sessions, e.g. to profile a single call.
+   * Measures are recorded into all active sessions.
    */
-  measurePerformance(): void;
+  startProfiling(): ProfileSession;
 }
 
 interface SerdeAlterConstructor {
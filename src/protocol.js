@@ -1,9 +1,20 @@
 const Reader = require('./reader').default;
 const Writer = require('./writer').default;
+const { CompactNumber, WriterPool } = require('./writer');
 const perf = require('./perf');
-const { DeserializeContext, Reference, SERDE, SerializeContext } = require('./types')
-const { hash, isArrayLike } = require('./util')
-const { measure } = perf;
+const codec = require('./codec');
+const { getSerializableClasses, pickFields, restoreInstance } = require('./decorators');
+const { createError, SerdeDecodeError } = require('./errors');
+const { FORMAT_VERSION, hasHeader, HEADER_FLAGS, MAGIC, NATIVE_FORMAT_VERSION, readHeader, writeHeader } = require('./header');
+const { readFrames, toChunkSink } = require('./stream');
+const { DeserializeContext, Reference, SERDE, SerializeContext, SUBSERDE } = require('./types')
+const { hash, isArrayIndex, isArrayLike, setEntry } = require('./util')
+const { decodeJSON, encodeJSON } = require('./json')
+const { openLazy } = require('./lazy')
+const { applyPatch, encodeDiff } = require('./diff')
+const { generateDecoder } = require('./describe')
+const { describeSchema } = require('./schema')
+const { fuzz, verify } = require('./verify')
 
 const TYPEDARRAYS = [
   null,
@@ -25,12 +36,33 @@ const decoder = new TextDecoder();
 const encode = encoder.encode.bind(encoder);
 const decode = decoder.decode.bind(decoder);
 
+/** Reserved tag preceding the hash & version of versioned subprotocols. Unversioned subprotocols are tagged by their
+ * hash alone, which keeps payloads written before a subprotocol was versioned readable as version 0.
+ */
+const VERSIONED_TAG = 0xFFFFFFFF;
+
+/** Layouts of binary data: inline bytes, the key of a separately stored chunk, or the index of an ArrayBuffer already
+ * written to the payload.
+ */
+const BINARY_INLINE = 0;
+const BINARY_CHUNK = 1;
+const BINARY_SHARED = 2;
+/** Alignment of ArrayBuffers, sufficient for views of any typed array. */
+const BUFFER_ALIGNMENT = 8;
+/** Flags preceding `object` & `array` values since format version 3, in order of their bit starting at the most
+ * significant bit. Format version 2 wrote a single bool whether the value is an array.
+ */
+const OBJECT_FLAGS = ['array', 'sparse', 'props', 'nullPrototype', 'frozen', 'sealed', 'nonExtensible'];
+
 function Serde(ctx) {
   if (!(this instanceof Serde)) return new Serde(...arguments);
   
   this.ctx = typeof ctx === 'function' ? ctx(this) : ctx;
   this.subprotocols = {};
   this.hashes = new Map();
+  this.upgrades = new Map();
+  this.migrations = new Map();
+  this.variants = new Map();
 }
 
 Serde.prototype.getSubProtocolOf = function(value) {
@@ -61,6 +93,16 @@ Serde.prototype.getSubProtocolOf = function(value) {
     return 'set';
   if (value instanceof Map)
     return 'map';
+  if (value instanceof Date)
+    return 'date';
+  if (value instanceof Error)
+    return 'error';
+  if (globalThis.URL && value instanceof URL)
+    return 'url';
+  if (globalThis.URLSearchParams && value instanceof URLSearchParams)
+    return 'urlsearchparams';
+  if (value instanceof Number || value instanceof String || value instanceof Boolean || value instanceof BigInt)
+    return 'boxed';
   
   if (globalThis.Buffer?.isBuffer(value))
     return 'buffer';
@@ -80,91 +122,371 @@ Serde.prototype.getSubProtocolOf = function(value) {
 }
 
 Serde.prototype.serialize = function(value, writer, ctx) {
-  const compress = !writer;
-  writer = writer || new Writer();
+  const options = writer instanceof Writer ? {} : writer || {};
+  if (!(writer instanceof Writer)) writer = undefined;
+  const pooled = !writer;
+  writer = writer || acquireWriter();
   
-  if (!ctx) {
-    ctx = new SerializeContext(this);
-    ctx.ref(value, undefined, true);
-    measure('writeReferences', () => writeReferences(ctx, writer));
+  try {
+    if (!ctx) {
+      ctx = new SerializeContext(this, options);
+      writePayload(ctx, writer, value);
+    }
+    else if (perf.enabled) {
+      perf.measure('serialize', () => writeValue(this, ctx, writer, value), writer);
+    }
+    else {
+      writeValue(this, ctx, writer, value);
+    }
+    return pooled ? writer.bytes() : writer.buffer;
   }
-  else {
-    measure('serialize', () => {
-      const subprotocol = this.getSubProtocolOf(value);
-      writer.writeUInt32(hash(subprotocol));
-      this.serializeAs(subprotocol, value, writer, ctx);
-    });
+  finally {
+    if (pooled) releaseWriter(writer);
   }
+}
   
-  if (compress) writer.compress();
-  return writer.buffer;
+/** Serialize `value` directly into `target` starting at `offset`, e.g. into caller-owned or `SharedArrayBuffer`
+ * memory, without allocating any intermediate buffer. Returns the number of bytes written. Throws if `target` is too
+ * small, leaving the bytes following `offset` undefined.
+ */
+Serde.prototype.serializeInto = function(value, target, offset = 0, options = {}) {
+  const writer = new Writer({ target: target.subarray(offset) });
+  writePayload(new SerializeContext(this, options), writer, value);
+  return writer.size;
 }
 
 Serde.prototype.deserialize = function(source, ctx) {
   const reader = source instanceof Reader ? source : new Reader(source);
   
-  if (!ctx) {
-    return measure(
-      'readReferences',
-      () => readReferences(new DeserializeContext(this), reader),
-    );
+  if (!(ctx instanceof DeserializeContext)) {
+    return readPayload(new DeserializeContext(this, undefined, ctx), reader);
+  }
+  else if (perf.enabled) {
+    return perf.measure('deserialize', () => readValue(this, ctx, reader), reader);
   }
   else {
-    return measure(
-      'deserialize',
-      () => {
-        const subprotocol = this.protocolFromHash(reader.readUInt32());
-        return this.deserializeAs(subprotocol, reader, ctx);
-      }
-    );
+    return readValue(this, ctx, reader);
   }
 }
 
 Serde.prototype.serializeAs = function(
   subprotocol,
   value,
-  writer = new Writer(),
+  writer,
   ctx,
 ) {
+  const options = writer instanceof Writer ? {} : writer || {};
+  if (!(writer instanceof Writer)) writer = new Writer();
+  
   if (!(subprotocol in this.subprotocols))
     throw new Error(`No such subprotocol: ${subprotocol}`);
   
   if (!ctx) {
-    ctx = new SerializeContext(this);
-    ctx.ref(value, subprotocol, true);
-    measure('writeReferences', () => writeReferences(ctx, writer));
+    ctx = new SerializeContext(this, options);
+    writePayload(ctx, writer, value, subprotocol);
   }
   else {
-    measure(
-      `[${subprotocol}].serialize`,
-      () => this.subprotocols[subprotocol].serialize(ctx, writer, value),
-    );
+    if (this.subprotocols[subprotocol].async)
+      throw new Error(`Subprotocol ${subprotocol} is async, use serializeAsync instead`);
+    if (perf.enabled)
+      perf.measure(`[${subprotocol}].serialize`, () => this.subprotocols[subprotocol].serialize(ctx, writer, value), writer);
+    else
+      this.subprotocols[subprotocol].serialize(ctx, writer, value);
   }
   return writer;
 }
 
+/** Serialize `value` like `serialize`, awaiting subprotocols registered with `setAsync`. Async serializers await
+ * their sub-values by passing their `writer` & `ctx` along.
+ */
+Serde.prototype.serializeAsync = async function(value, writer, ctx) {
+  const options = writer instanceof Writer ? {} : writer || {};
+  if (!(writer instanceof Writer)) writer = undefined;
+  const pooled = !writer;
+  writer = writer || acquireWriter();
+  
+  try {
+    if (!ctx) {
+      ctx = new SerializeContext(this, options);
+      const start = writer.tell();
+      const body = beginPayload(ctx, writer, value);
+      await writeReferencesAsync(ctx, writer);
+      if (options.compression)
+        replaceBody(writer, body, await codec.compressAsync(options.compression, writer.buffer.slice(body, writer.tell())));
+      appendChecksum(ctx, writer, start);
+    }
+    else {
+      const subprotocol = this.getSubProtocolOf(value);
+      writeTag(ctx, writer, subprotocol);
+      await serializeAsAsync(ctx, writer, value, subprotocol);
+    }
+    return pooled ? writer.bytes() : writer.buffer;
+  }
+  finally {
+    if (pooled) releaseWriter(writer);
+  }
+}
+
+/** Deserialize a value like `deserialize`, awaiting subprotocols registered with `setAsync`. Async deserializers
+ * await their sub-values by passing their `reader` & `ctx` along.
+ */
+Serde.prototype.deserializeAsync = async function(source, ctx) {
+  const reader = source instanceof Reader ? source : new Reader(source);
+  
+  if (!(ctx instanceof DeserializeContext)) {
+    ctx = new DeserializeContext(this, undefined, ctx);
+    let body = openEnvelope(ctx, reader);
+    if (ctx.header?.codec)
+      body = new Reader(await codec.decompressAsync(ctx.header.codec, body.buffer.subarray(body.tell()), ctx.limits?.maxBytes, body.tell()));
+    return await readReferencesAsync(ctx, openBody(ctx, body));
+  }
+  else {
+    const [subprotocol, version] = readTag(ctx, reader);
+    return await deserializeAsAsync(ctx, reader, subprotocol, version);
+  }
+}
+
 Serde.prototype.deserializeAs = function(
   subprotocol,
   source,
   ctx,
+  version,
 ) {
   const reader = source instanceof Reader ? source : new Reader(source);
 
   if (!(subprotocol in this.subprotocols))
     throw new Error(`No such subprotocol: ${subprotocol}`);
   
-  if (!ctx) {
-    return measure('readReferences',
-      () => readReferences(new DeserializeContext(this), reader),
-    );
+  if (!(ctx instanceof DeserializeContext)) {
+    return readPayload(new DeserializeContext(this, undefined, ctx), reader);
   } else {
-    return measure(
-      `[${subprotocol}].deserialize`,
-      () => this.subprotocols[subprotocol].deserialize(ctx, reader),
-    );
+    const { deserialize, async } = this.subprotocols[subprotocol];
+    if (async)
+      throw new Error(`Subprotocol ${subprotocol} is async, use deserializeAsync instead`);
+    version = checkVersion(ctx, reader, subprotocol, version);
+    
+    ++ctx.depth;
+    try {
+      if (perf.enabled)
+        return perf.measure(`[${subprotocol}].deserialize`, () => deserialize(ctx, reader, version), reader);
+      return deserialize(ctx, reader, version);
+    }
+    finally {
+      --ctx.depth;
+    }
   }
 }
 
+/** Serialize `value` to the given Web `WritableStream` or NodeJS `Writable` in the stream layout, emitting chunks as
+ * references are written rather than buffering the entire payload.
+ */
+Serde.prototype.serializeStream = async function(value, sink, options = {}) {
+  const { chunkSize = 16384, compact = false, canonical = false } = options;
+  if (options.compression || options.checksum || options.index)
+    throw new Error('Compression, checksums & indices are not supported by the stream layout');
+  const ctx = new SerializeContext(this, options);
+  const writer = new Writer({ grow: chunkSize, compact, canonical });
+  const chunks = toChunkSink(sink);
+  ctx.ref(value, undefined, true);
+  
+  if (options.header)
+    writeHeader(writer, { version: FORMAT_VERSION, flags: { stream: true, compact } });
+  
+  try {
+    let next = ctx.refs.pop();
+    while (next) {
+      const [obj, ref] = next;
+      const cursorStart = writer.tell();
+      writer.writeUInt32(0);
+      await writeRecordAsync(ctx, writer, obj, ref);
+      
+      const cursorEnd = writer.tell();
+      writer.seek(cursorStart);
+      writer.writeUInt32(cursorEnd - cursorStart - 4);
+      writer.seek(cursorEnd);
+      
+      if (writer.size >= chunkSize) {
+        await chunks.write(writer.buffer.slice(0, writer.size));
+        writer.reset();
+      }
+      next = ctx.refs.pop();
+    }
+    
+    writer.writeUInt32(0);
+    await chunks.write(writer.buffer.slice(0, writer.size));
+  }
+  finally {
+    chunks.release();
+  }
+}
+
+/** Deserialize a value from a Web `ReadableStream` or async iterable of chunks (including NodeJS `Readable`s) in the
+ * stream layout as written by `serializeStream`. References are restored as their records arrive.
+ */
+Serde.prototype.deserializeStream = async function(source, options = {}) {
+  const ctx = new DeserializeContext(this, undefined, options);
+  const objs = {};
+  
+  const onHeader = header => {
+    if (!header) {
+      if (options.header)
+        throw new Error('Not a serde payload: missing magic bytes');
+      return;
+    }
+    if (!header.flags.stream)
+      throw new Error('Payload is not in the stream layout, use deserialize instead');
+    if (header.version < NATIVE_FORMAT_VERSION)
+      throw new Error(`Cannot upgrade streamed payloads of serde format version ${header.version}`);
+    if (header.flags.compressed || header.flags.checksum)
+      throw new Error('Compression & checksums are not supported by the stream layout');
+    ctx.header = header;
+    ctx.version = header.version;
+  };
+  
+  let bytes = 0;
+  let records = 0;
+  for await (const frame of readFrames(source, onHeader, ctx.limits?.maxBytes)) {
+    bytes += frame.length + 4;
+    if (ctx.limits && records++ >= ctx.limits.maxReferences)
+      throw new SerdeDecodeError(`Stream exceeds maxReferences of ${ctx.limits.maxReferences}`, bytes);
+    
+    const reader = new Reader(frame);
+    reader.compact = !!(ctx.header ? ctx.header.flags.compact : options.compact);
+    await readRecordAsync(ctx, reader, objs);
+    if (reader.tell() !== frame.length)
+      throw new Error(`Stream frame length mismatch: expected ${frame.length} bytes, read ${reader.tell()}`);
+  }
+  
+  return resolveReferences(ctx, objs, bytes);
+}
+
+/** Open an indexed payload for random access rather than deserializing it entirely. Returns the root value, where
+ * object & array records are proxies which decode their record upon first access, as are the records referenced
+ * from there. Records of other subprotocols are decoded when reached. See `SerializeOptions.index`.
+ */
+Serde.prototype.open = function(bytes, options = {}) {
+  const ctx = new DeserializeContext(this, undefined, options);
+  const body = openPayload(ctx, new Reader(bytes));
+  if (!ctx.header?.flags.indexed)
+    throw new Error('Payload has no index, serialize it with the index option');
+  const index = ctx.index = readIndex(body);
+
+  const recordAt = id => {
+    if (!(id in index.records))
+      throw new SerdeDecodeError(`Reference ID not found: ${id}`, body.buffer.length);
+    return new Reader(body.buffer, index.records[id]);
+  };
+
+  return openLazy(ctx, {
+    targetOf: id => {
+      const reader = recordAt(id);
+      reader.readUInt();
+      reader.readBool();
+      const [subprotocol] = readTag(ctx, reader);
+      if (!['array', 'object'].includes(subprotocol)) return undefined;
+      if (ctx.version < 3) return reader.readBool() ? [] : {};
+      const [array, , , nullPrototype] = reader.readFlags();
+      return array ? [] : nullPrototype ? Object.create(null) : {};
+    },
+    decode: id => {
+      const reader = recordAt(id);
+      const objs = {};
+      readRecord(ctx, reader, objs);
+      if (!(id in objs))
+        throw new SerdeDecodeError(`Index of reference ID ${id} points to another record`, index.records[id]);
+      return objs[id];
+    },
+  });
+}
+
+/** Serialize `value` to JSON text with `$ref`/`$type` markers, reusing the registered subprotocols. Values of custom
+ * subprotocols not registered with `setSimple` are embedded as base64 of their binary serialization.
+ */
+Serde.prototype.serializeJSON = function(value, options = {}) {
+  return JSON.stringify(encodeJSON(this, value), undefined, options.space);
+}
+
+/** Deserialize a value from JSON text or its parsed object as written by `serializeJSON`. */
+Serde.prototype.deserializeJSON = function(json) {
+  return decodeJSON(this, typeof json === 'string' ? JSON.parse(json) : json);
+}
+
+/** Encode the changes from `prev` to `next` as a binary patch, which `patch` applies to a copy of `prev`. Objects,
+ * arrays, Maps & Sets of `next` which are the same object as, or take the place of, their counterpart in `prev` are
+ * patched in place, so the receiver's copy keeps its object identities & cycles. `prev` must not have been mutated
+ * since the receiver's copy was taken.
+ */
+Serde.prototype.diff = function(prev, next) {
+  return encodeDiff(this, prev, next);
+}
+
+/** Apply a patch as written by `diff` to `prev`, a copy of the previous value, in place. Returns the patched root, which
+ * is `prev` itself unless the patch replaced it.
+ */
+Serde.prototype.patch = function(prev, bytes) {
+  return applyPatch(this, prev, bytes);
+}
+
+/** Describe the wire format & all registered subprotocols, including their layout where known, as plain JSON data for
+ * decoders in other languages. Layouts are known of standard subprotocols & those registered with `setSimple`,
+ * `setSchema` or `setDecorated`. See FORMAT.md.
+ */
+Serde.prototype.describe = function() {
+  return {
+    format: {
+      version: FORMAT_VERSION,
+      magic: String.fromCharCode(...MAGIC),
+      flags: [...HEADER_FLAGS],
+      codecs: { ...codec.CODECS },
+      checksums: { ...codec.CHECKSUMS },
+      versionedTag: VERSIONED_TAG,
+      binary: { inline: BINARY_INLINE, chunk: BINARY_CHUNK, shared: BINARY_SHARED },
+      bufferAlignment: BUFFER_ALIGNMENT,
+      compactNumber: { ...CompactNumber },
+      objectFlags: [...OBJECT_FLAGS],
+      typedArrays: TYPEDARRAYS.map(con => con?.name ?? null),
+    },
+    subprotocols: this.registry().map(({ subprotocol, id, explicit, version }) => {
+      const variants = this.variants.get(subprotocol);
+      const layout = variants
+        ? {
+            kind: 'variant',
+            variants: Object.entries(variants.byName).map(([name, { layout }]) => ({ name, hash: hash(name), layout })),
+          }
+        : this.subprotocols[subprotocol].layout;
+      return { name: subprotocol, id, hash: hash(subprotocol), explicit, version, layout };
+    }),
+  };
+}
+
+/** Generate the TypeScript source of a standalone module which decodes payloads of this Serde without it. */
+Serde.prototype.generateDecoder = function() {
+  return generateDecoder(this.describe());
+}
+
+/** Round-trip `value` & report every difference between it & the result, including objects which are no longer
+ * shared or cyclic, as well as subprotocols which read another number of bytes than they wrote. Meant for testing
+ * custom subprotocols.
+ */
+Serde.prototype.verify = function(value, options) {
+  return verify(this, value, options);
+}
+
+/** Verify random values of every subprotocol & decode random mutations of their payloads in safe mode, reporting
+ * failures & mutations which throw anything but an `Error` or `SerdeDecodeError`.
+ */
+Serde.prototype.fuzz = function(options) {
+  return fuzz(this, options);
+}
+
+/** Register an upgrade path which transforms payload bodies of format version `version` into the layout of the next
+ * format version. Upgrades are chained to read payloads of any older format version with a header.
+ */
+Serde.prototype.upgrade = function(version, upgrade) {
+  this.upgrades.set(version, upgrade);
+  return this;
+}
+
 Serde.prototype.protocolFromHash = function(hash) {
   if (!this.hashes.has(hash))
     throw Error(`Failed subprotocol hash lookup: ${hash.toString(16)}`);
@@ -175,9 +497,18 @@ Serde.prototype.set = function(
   subprotocol,
   serialize,
   deserialize,
-  force = false,
+  options = false,
 ) {
-  const hashed = hash(subprotocol);
+  const { force = false, version = 0, id } = typeof options === 'boolean' ? { force: options } : options;
+  if (!Number.isInteger(version) || version < 0 || version >= VERSIONED_TAG)
+    throw new Error(`Invalid version of subprotocol ${subprotocol}: ${version}`);
+  if (id !== undefined && (!Number.isInteger(id) || id < 0 || id > 0xFFFFFFFF))
+    throw new Error(`Invalid ID of subprotocol ${subprotocol}: ${id}`);
+  
+  const hashed = id ?? hash(subprotocol);
+  if (hashed === VERSIONED_TAG) {
+    throw new Error(`Subprotocol ${id === undefined ? 'hash' : 'ID'} of "${subprotocol}" clashes with a reserved tag`);
+  }
   if (!force && subprotocol in this.subprotocols) {
     throw new Error(`Subprotocol with name already registered: ${subprotocol}`);
   }
@@ -188,34 +519,140 @@ Serde.prototype.set = function(
     }
   }
   
+  // forcibly replaced subprotocols may change their ID
+  if (subprotocol in this.subprotocols)
+    this.hashes.delete(this.subprotocols[subprotocol].id);
+  
   this.subprotocols[subprotocol] = {
     serialize,
     deserialize,
+    version,
+    id: hashed,
+    explicit: id !== undefined,
   };
   this.hashes.set(hashed, subprotocol);
   return this;
 }
 
+/** List the registered subprotocols along with the IDs identifying them on the wire, ordered by ID. */
+Serde.prototype.registry = function() {
+  return Object.entries(this.subprotocols)
+    .map(([subprotocol, { id, explicit, version }]) => ({ subprotocol, id, explicit, version }))
+    .sort((a, b) => a.id - b.id);
+}
+
 Serde.prototype.setSimple = function(
   subprotocol,
   filter,
   rebuild,
+  options = false,
+) {
+  const [serialize, deserialize, simple] = simpleProtocol(subprotocol, filter, rebuild);
+  this.set(subprotocol, serialize, deserialize, options);
+  Object.assign(this.subprotocols[subprotocol], { simple, layout: { kind: 'any' } });
+  return this;
+}
+
+/** Register a subprotocol whose de/serializer may return promises. Async subprotocols are only supported by
+ * `serializeAsync`, `deserializeAsync` & streams, which still support all synchronous subprotocols.
+ */
+Serde.prototype.setAsync = function(subprotocol, serialize, deserialize, options = false) {
+  this.set(subprotocol, serialize, deserialize, options);
+  this.subprotocols[subprotocol].async = true;
+  return this;
+}
+
+/** Register a variant of `subprotocol`. Values of the subprotocol select their variant through their `[SUBSERDE]`
+ * property. The variant's hash is written after the subprotocol's tag & dispatched to the variant's de/serializer.
+ */
+Serde.prototype.setVariant = function(
+  subprotocol,
+  variant,
+  serialize,
+  deserialize,
   force = false,
 ) {
-  return this.set(subprotocol,
-    (ctx, writer, value) => {
-      const datafn = value => cloneData(value);
-      const data = filter(value, datafn);
-      if (data && typeof data === 'object' && !data[SERDE]) data[SERDE] = 'data-object';
-      ctx.serde.serialize(data, writer, ctx);
-    },
-    (ctx, reader) => rebuild(ctx.serde.deserialize(reader, ctx), ctx.deref),
-    force,
+  if (!this.variants.has(subprotocol)) {
+    if (subprotocol in this.subprotocols)
+      throw new Error(`Subprotocol with name already registered: ${subprotocol}`);
+    
+    const variants = { byName: {}, byHash: new Map() };
+    this.variants.set(subprotocol, variants);
+    this.set(subprotocol,
+      (ctx, writer, value) => {
+        const variant = value[SUBSERDE];
+        if (typeof variant !== 'string')
+          throw new Error(`Expected [SUBSERDE] property to be a string (variant of ${subprotocol})`);
+        if (!(variant in variants.byName))
+          throw new Error(`No such variant of subprotocol ${subprotocol}: ${variant}`);
+        
+        writer.writeUInt32(hash(variant));
+        variants.byName[variant].serialize(ctx, writer, value);
+      },
+      (ctx, reader, version) => {
+        const hashed = reader.readUInt32();
+        if (!variants.byHash.has(hashed))
+          throw new SerdeDecodeError(`Failed variant hash lookup of subprotocol ${subprotocol}: ${hashed.toString(16)}`, reader.tell() - 4);
+        return variants.byName[variants.byHash.get(hashed)].deserialize(ctx, reader, version);
+      },
+    );
+  }
+  
+  const variants = this.variants.get(subprotocol);
+  const hashed = hash(variant);
+  if (!force && variant in variants.byName)
+    throw new Error(`Variant of subprotocol ${subprotocol} already registered: ${variant}`);
+  if (variants.byHash.has(hashed) && variants.byHash.get(hashed) !== variant)
+    throw new Error(`Variant hash clash between "${variants.byHash.get(hashed)}" and "${variant}" (0x${hashed.toString(16)})`);
+  
+  variants.byName[variant] = { serialize, deserialize };
+  variants.byHash.set(hashed, variant);
+  return this;
+}
+
+/** Register subprotocols for the given classes decorated with `@serializable`, or all decorated classes if none are
+ * given.
+ */
+Serde.prototype.setDecorated = function(...classes) {
+  for (const [con, meta] of getSerializableClasses(classes)) {
+    const { subprotocol, variant, factory, ...options } = meta;
+    const filter = (value, data) => data(pickFields(value));
+    const rebuild = (data, deref) => restoreInstance(con, meta, data, deref);
+    if (variant !== undefined) {
+      const [serialize, deserialize] = simpleProtocol(subprotocol, filter, rebuild);
+      this.setVariant(subprotocol, variant, serialize, deserialize, options.force);
+      this.variants.get(subprotocol).byName[variant].layout = { kind: 'any' };
+    } else {
+      this.setSimple(subprotocol, filter, rebuild, options);
+    }
+  }
+  return this;
+}
+
+/** Register a subprotocol whose layout is described by `schema`. */
+Serde.prototype.setSchema = function(subprotocol, schema, options = false) {
+  this.set(subprotocol,
+    (ctx, writer, value) => schema.serialize(ctx, writer, value),
+    (ctx, reader) => schema.deserialize(ctx, reader),
+    options,
   );
+  this.subprotocols[subprotocol].layout = describeSchema(schema);
+  return this;
+}
+
+/** Register a migration which upgrades the data of a `setSimple` subprotocol from `version` to `version + 1`.
+ * Migrations are chained to upgrade data of any older version before it is passed on to `rebuild`.
+ */
+Serde.prototype.migrate = function(subprotocol, version, migration) {
+  if (!this.migrations.has(subprotocol))
+    this.migrations.set(subprotocol, new Map());
+  this.migrations.get(subprotocol).set(version, migration);
+  return this;
 }
 
 Serde.prototype.standard = function() {
-  return this
+  const custom = new Set(Object.keys(this.subprotocols));
+  this
     .set('boolean',
       (_, writer, value) => {
         writer.writeByte(value ? 1 : 0);
@@ -224,19 +661,25 @@ Serde.prototype.standard = function() {
     )
     .set('number',
       (_, writer, value) => {
-        writer.writeNumber(value);
+        if (writer.compact)
+          writer.writeCompactNumber(value);
+        else
+          writer.writeNumber(value);
       },
-      (_, reader) => reader.readNumber(),
+      (_, reader) => reader.compact ? reader.readCompactNumber() : reader.readNumber(),
     )
     .set('string',
       (_, writer, value) => {
-        writer.writeUInt32(value.length);
-        writer.writeBytes(encode(value));
+        const bytes = encode(value);
+        writer.writeUInt(bytes.length);
+        writer.writeBytes(bytes);
       },
-      (_, reader) => {
-        const length = reader.readUInt32();
-        const bytes = reader.readBytes(length);
-        return decode(bytes);
+      (ctx, reader) => {
+        const length = reader.readUInt();
+        ctx.assertLength(reader, length, 'maxStringLength');
+        if (ctx.version < 2)
+          return readLegacyString(reader, length);
+        return decode(reader.readBytes(length));
       }
     )
     .set('bigint',
@@ -264,14 +707,16 @@ Serde.prototype.standard = function() {
     .set('set',
       (ctx, writer, value) => {
         const { serde, ref } = ctx;
-        writer.writeUInt32(value.size);
-        for (const item of value) {
+        writer.writeUInt(value.size);
+        const items = ctx.options.canonical ? sortCanonical(ctx, value, [...value], item => [item]) : value;
+        for (const item of items) {
           serde.serialize(ref(item), writer, ctx);
         }
       },
       (ctx, reader) => {
         const { serde, deref } = ctx;
-        const size = reader.readUInt32();
+        const size = reader.readUInt();
+        ctx.assertLength(reader, size, 'maxCollectionLength');
         const result = new Set();
         for (let i = 0; i < size; ++i) {
           const item = serde.deserialize(reader, ctx);
@@ -283,15 +728,17 @@ Serde.prototype.standard = function() {
     .set('map',
       (ctx, writer, map) => {
         const { serde, ref } = ctx;
-        writer.writeUInt32(map.size);
-        for (const [key, value] of map.entries()) {
+        writer.writeUInt(map.size);
+        const entries = ctx.options.canonical ? sortCanonical(ctx, map, [...map], entry => entry) : map.entries();
+        for (const [key, value] of entries) {
           serde.serialize(ref(key), writer, ctx);
           serde.serialize(ref(value), writer, ctx);
         }
       },
       (ctx, reader) => {
         const { serde, deref } = ctx;
-        const size = reader.readUInt32();
+        const size = reader.readUInt();
+        ctx.assertLength(reader, size, 'maxCollectionLength', 2);
         const result = new Map();
         for (let i = 0; i < size; ++i) {
           const key = serde.deserialize(reader, ctx);
@@ -303,19 +750,87 @@ Serde.prototype.standard = function() {
         return result;
       },
     )
+    .set('date',
+      (ctx, writer, value) => {
+        ctx.serde.serializeAs('number', value.getTime(), writer, ctx);
+      },
+      (ctx, reader) => new Date(ctx.serde.deserializeAs('number', reader, ctx)),
+    )
+    .set('error',
+      (ctx, writer, value) => {
+        const { serde } = ctx;
+        serde.serializeAs('string', String(value.name), writer, ctx);
+        serde.serializeAs('string', String(value.message), writer, ctx);
+        serde.serialize(typeof value.stack === 'string' ? value.stack : undefined, writer, ctx);
+        
+        writer.writeBool('cause' in value);
+        if ('cause' in value)
+          serde.serialize(ctx.ref(value.cause), writer, ctx);
+      },
+      (ctx, reader) => {
+        const { serde, deref } = ctx;
+        const name = serde.deserializeAs('string', reader, ctx);
+        const message = serde.deserializeAs('string', reader, ctx);
+        const stack = serde.deserialize(reader, ctx);
+        
+        const error = createError(name, message, stack);
+        
+        if (reader.readBool()) {
+          deref(serde.deserialize(reader, ctx), cause => {
+            Object.defineProperty(error, 'cause', {
+              value: cause,
+              writable: true,
+              configurable: true,
+            });
+          });
+        }
+        return error;
+      },
+    )
+    .set('url',
+      (ctx, writer, value) => {
+        ctx.serde.serializeAs('string', value.href, writer, ctx);
+      },
+      (ctx, reader) => {
+        const offset = reader.tell();
+        const href = ctx.serde.deserializeAs('string', reader, ctx);
+        try {
+          return new URL(href);
+        } catch {
+          throw new SerdeDecodeError(`Invalid URL: ${href}`, offset);
+        }
+      },
+    )
+    .set('urlsearchparams',
+      (ctx, writer, value) => {
+        ctx.serde.serializeAs('string', value.toString(), writer, ctx);
+      },
+      (ctx, reader) => new URLSearchParams(ctx.serde.deserializeAs('string', reader, ctx)),
+    )
+    .set('boxed',
+      (ctx, writer, value) => {
+        ctx.serde.serialize(value.valueOf(), writer, ctx);
+      },
+      (ctx, reader) => Object(ctx.serde.deserialize(reader, ctx)),
+    )
     .set('buffer',
       (ctx, writer, value) => {
-        const bytes = value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength);
-        ctx.serde.serializeAs('arraybuffer', bytes, writer, ctx);
+        serializeBinary(ctx, writer, value, viewBytes(value), 1);
+      },
+      (ctx, reader) => {
+        const bytes = deserializeBinary(ctx, reader, 1);
+        return globalThis.Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
       },
-      (ctx, reader) => globalThis.Buffer.from(ctx.serde.deserializeAs('arraybuffer', reader, ctx)),
     )
     .set('arraybuffer',
-      (_, writer, value) => {
-        writer.writeUInt32(value.byteLength);
-        writer.writeBytes(new Uint8Array(value));
+      (ctx, writer, value) => {
+        serializeArrayBuffer(ctx, writer, value);
+      },
+      (ctx, reader) => {
+        const bytes = deserializeArrayBuffer(ctx, reader);
+        // ArrayBuffers cannot be views, so views into the payload are copied
+        return bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength ? bytes.buffer : bytes.slice().buffer;
       },
-      (_, reader) => reader.readBytes(reader.readUInt32()).buffer,
     )
     .set('typedarray',
       (ctx, writer, value) => {
@@ -323,17 +838,35 @@ Serde.prototype.standard = function() {
         if (type ===  0) throw new Error('How the fuck...');
         if (type === -1) throw new Error('Unsupported TypedArray');
         
-        const bytes = value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength);
+        // the entire buffer is written once, so views sharing it still do so after deserialization
         writer.writeByte(type);
-        ctx.serde.serializeAs('arraybuffer', bytes, writer, ctx);
+        serializeArrayBuffer(ctx, writer, value.buffer);
+        writer.writeUInt(value.byteOffset);
+        writer.writeUInt(value.length);
       },
       (ctx, reader) => {
         const type = reader.readByte();
-        if (type <= 0 || type > TYPEDARRAYS.length) 
-          throw new Error(`Invalid TypedArray index: ${type}`);
+        if (type <= 0 || type >= TYPEDARRAYS.length)
+          throw new SerdeDecodeError(`Invalid TypedArray index: ${type}`, reader.tell() - 1);
         const con = TYPEDARRAYS[type];
-        const bytes = ctx.serde.deserializeAs('arraybuffer', reader, ctx);
-        return new con(bytes);
+        const offset = reader.tell();
+        
+        // format version 1 wrote the bytes of the view only
+        if (ctx.version < 2) {
+          let bytes = deserializeBinary(ctx, reader, 1);
+          if (bytes.byteLength % con.BYTES_PER_ELEMENT)
+            throw new SerdeDecodeError(`Invalid byte length ${bytes.byteLength} of ${con.name}`, offset);
+          if (bytes.byteOffset % con.BYTES_PER_ELEMENT)
+            bytes = bytes.slice();
+          return new con(bytes.buffer, bytes.byteOffset, bytes.byteLength / con.BYTES_PER_ELEMENT);
+        }
+        
+        const bytes = deserializeArrayBuffer(ctx, reader);
+        const byteOffset = reader.readUInt();
+        const length = reader.readUInt();
+        if (byteOffset % con.BYTES_PER_ELEMENT || byteOffset + length * con.BYTES_PER_ELEMENT > bytes.byteLength)
+          throw new SerdeDecodeError(`Invalid ${con.name} of length ${length} at offset ${byteOffset} of ${bytes.byteLength} bytes`, offset);
+        return new con(bytes.buffer, bytes.byteOffset + byteOffset, length);
       },
     )
     .set('array', serializeObject, deserializeObject)
@@ -341,27 +874,138 @@ Serde.prototype.standard = function() {
     .set('data-object', serializeObject, deserializeObject)
     .set('reference',
       (_, writer, ref) => {
-        writer.writeUInt32(ref.id);
+        writer.writeUInt(ref.id);
       },
       (_, reader) => {
-        const id = reader.readUInt32();
+        const id = reader.readUInt();
         return new Reference(id);
       },
-    )
+    );
+
+  // the layouts of standard subprotocols are specified in FORMAT.md
+  for (const [subprotocol, entry] of Object.entries(this.subprotocols)) {
+    if (!custom.has(subprotocol))
+      entry.layout = { kind: 'standard' };
+  }
+  return this;
 }
 
 module.exports = Serde;
-Serde.measurePerformance = () => perf.enable();
+Serde.measurePerformance = (enable = true) => enable ? perf.enable() : perf.disable();
+Serde.profile = () => perf.globalSession.report();
+Serde.resetProfile = () => { perf.globalSession.reset() };
+Serde.startProfiling = () => new perf.ProfileSession().start();
+Serde.writerPool = new WriterPool();
 Serde.Mapped = () => Serde;
 Serde.SerdeBase = Serde;
 Serde.SerdeAlter = Serde;
 
 
+/** Write the bytes of a binary value, either inline & aligned to `alignment` bytes for zero-copy reads, or as the key
+ * of the separately stored chunk selected by `SerializeOptions.chunks`.
+ */
+function serializeBinary(ctx, writer, value, bytes, alignment) {
+  const key = ctx.options.chunks?.(value);
+  if (key !== undefined) {
+    writer.writeByte(BINARY_CHUNK);
+    ctx.serde.serializeAs('string', key, writer, ctx);
+    return;
+  }
+  
+  writer.writeByte(BINARY_INLINE);
+  writer.writeUInt(bytes.length);
+  if (alignment > 1)
+    writer.align(alignment);
+  writer.writeBytes(bytes);
+}
+
+/** Read the bytes of a binary value as written by `serializeBinary`. Returns a view into the payload or chunk in
+ * `zeroCopy` mode, else a copy.
+ */
+function deserializeBinary(ctx, reader, alignment) {
+  const { chunks, zeroCopy } = ctx.options;
+  // format version 1 neither aligned nor supported chunks
+  if (ctx.version < 2)
+    return zeroCopy ? reader.readView(reader.readUInt()) : reader.readBytes(reader.readUInt());
+  
+  const offset = reader.tell();
+  const layout = reader.readByte();
+  switch (layout) {
+    case BINARY_INLINE: {
+      const length = reader.readUInt();
+      if (alignment > 1)
+        reader.align();
+      return zeroCopy ? reader.readView(length) : reader.readBytes(length);
+    }
+    case BINARY_CHUNK: {
+      const key = ctx.serde.deserializeAs('string', reader, ctx);
+      const chunk = chunks?.(key);
+      if (!chunk)
+        throw new SerdeDecodeError(`Binary chunk not found: ${key}`, offset + 1);
+      return zeroCopy ? chunk : chunk.slice();
+    }
+    default:
+      throw new SerdeDecodeError(`Invalid binary layout: ${layout}`, offset);
+  }
+}
+
+/** Write the bytes of `buffer` unless it has already been written to the payload, in which case only its index is. */
+function serializeArrayBuffer(ctx, writer, buffer) {
+  if (ctx.buffers.has(buffer)) {
+    writer.writeByte(BINARY_SHARED);
+    writer.writeUInt(ctx.buffers.get(buffer));
+    return;
+  }
+  ctx.buffers.set(buffer, ctx.buffers.size);
+  if (ctx.index)
+    ctx.index.buffers.push(writer.tell() - ctx.index.start);
+  serializeBinary(ctx, writer, buffer, new Uint8Array(buffer), BUFFER_ALIGNMENT);
+}
+
+/** Read the bytes of an ArrayBuffer as written by `serializeArrayBuffer`. Buffers are indexed in order of their first
+ * occurrence, which is the same for reading & writing.
+ */
+function deserializeArrayBuffer(ctx, reader) {
+  if (ctx.version < 2)
+    return deserializeBinary(ctx, reader, 1);
+  
+  const offset = reader.tell();
+  if (reader.buffer[offset] === BINARY_SHARED) {
+    reader.advance(1);
+    const index = reader.readUInt();
+    if (ctx.buffers[index])
+      return ctx.buffers[index];
+    // records of indexed payloads are read in any order, so the first occurrence may not have been read yet
+    if (ctx.index && index < ctx.index.buffers.length)
+      return deserializeArrayBuffer(ctx, new Reader(reader.buffer, ctx.index.buffers[index]));
+    throw new SerdeDecodeError(`Invalid ArrayBuffer index: ${index}`, offset + 1);
+  }
+  
+  let bytes = deserializeBinary(ctx, reader, BUFFER_ALIGNMENT);
+  // views of typed arrays require aligned data, e.g. views into unaligned sources
+  if (bytes.byteOffset % BUFFER_ALIGNMENT)
+    bytes = bytes.slice();
+
+  if (ctx.index) {
+    const index = ctx.index.buffers.indexOf(offset);
+    if (index === -1)
+      throw new SerdeDecodeError('ArrayBuffer missing from index', offset);
+    return ctx.buffers[index] ??= bytes;
+  }
+  ctx.buffers.push(bytes);
+  return bytes;
+}
+
+function viewBytes(value) {
+  return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+}
+
 function serializeRegex(ctx, writer, value) {
   ctx.serde.serializeAs('string', value.toString(), writer, ctx);
 }
 
 function deserializeRegex(ctx, reader) {
+  const offset = reader.tell();
   let raw = ctx.serde.deserializeAs('string', reader, ctx);
   let flags = '';
   if (raw[0] === '/') raw = raw.substring(1);
@@ -372,64 +1016,320 @@ function deserializeRegex(ctx, reader) {
     raw = raw.substring(0, idx);
   }
   
-  return new RegExp(raw, flags);
+  try {
+    return new RegExp(raw, flags);
+  } catch (err) {
+    throw new SerdeDecodeError(err.message, offset);
+  }
 }
 
 /** Code shared between generic arrays & generic objects */
 function serializeObject(ctx, writer, value) {
   const { serde } = ctx;
   if (!value) throw new Error('Invalid object null or undefined');
+  const frozen = Object.isFrozen(value);
+  const sealed = Object.isSealed(value);
+  const nonExtensible = !Object.isExtensible(value);
   
-  if (isArrayLike(value)) {
-    writer.writeBool(true);
-    writer.writeUInt32(value.length);
-    value.forEach(value => {
-      serde.serialize(ctx.ref(value), writer, ctx);
-    });
+  if (Array.isArray(value)) {
+    // indices precede all other keys, so arrays are dense w/o other properties iff they have as many keys as items &
+    // the last key is the index of the last item
+    const keys = Object.keys(value);
+    const dense = keys.length === value.length && (!keys.length || keys[keys.length - 1] === String(value.length - 1));
+    const indices = dense ? undefined : keys.filter(isArrayIndex);
+    const props = dense ? [] : keys.filter(key => !isArrayIndex(key) && isValidPair([key, value[key]]));
+    const sparse = !dense && indices.length < value.length;
+
+    // see OBJECT_FLAGS
+    writer.writeFlags(true, sparse, props.length > 0, false, frozen, sealed, nonExtensible);
+    writer.writeUInt(value.length);
+    if (sparse) {
+      writer.writeUInt(indices.length);
+      for (const index of indices) {
+        writer.writeUInt(+index);
+        serde.serialize(ctx.ref(value[index]), writer, ctx);
+      }
+    }
+    else {
+      for (let i = 0; i < value.length; ++i) {
+        serde.serialize(ctx.ref(value[i]), writer, ctx);
+      }
+    }
+    if (props.length)
+      serializeEntries(ctx, writer, props.map(key => [key, value[key]]));
   }
   else {
-    const entries = Object.entries(value).filter(isValidPair);
-    writer.writeBool(false);
-    writer.writeUInt32(entries.length);
-    entries.forEach(([key, value]) => {
-      serde.serializeAs('string', key, writer, ctx);
-      serde.serialize(ctx.ref(value), writer, ctx);
-    });
+    writer.writeFlags(false, false, false, Object.getPrototypeOf(value) === null, frozen, sealed, nonExtensible);
+    serializeEntries(ctx, writer, Object.entries(value).filter(isValidPair));
+  }
+}
+
+function serializeEntries(ctx, writer, entries) {
+  if (ctx.options.canonical)
+    entries.sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+  writer.writeUInt(entries.length);
+  for (const [key, value] of entries) {
+    ctx.serde.serializeAs('string', key, writer, ctx);
+    ctx.serde.serialize(ctx.ref(value), writer, ctx);
   }
 }
 
 function deserializeObject(ctx, reader) {
   const { serde } = ctx;
-  const isArrayLike = reader.readBool();
+  const offset = reader.tell();
+  const [array, sparse, props, nullPrototype, frozen, sealed, nonExtensible, unknown] = ctx.version < 3
+    ? [reader.readBool()]
+    : reader.readFlags();
+  if (unknown || (!array && (sparse || props)) || (array && nullPrototype))
+    throw new SerdeDecodeError(`Invalid object flags: ${reader.buffer[offset].toString(2)}`, offset);
   let result;
   
-  const length = reader.readUInt32();
-  if (isArrayLike) {
-    result = new Array(length);
-    for (let i = 0; i < length; ++i) {
-      result[i] = serde.deserialize(reader, ctx);
+  if (array) {
+    const length = reader.readUInt();
+    if (sparse) {
+      // holes take no space
+      ctx.assertLength(reader, length, 'maxCollectionLength', 0);
+      result = new Array(length);
+      const count = reader.readUInt();
+      ctx.assertLength(reader, count, 'maxCollectionLength', 2);
+      for (let i = 0, last = -1; i < count; ++i) {
+        const indexOffset = reader.tell();
+        const index = reader.readUInt();
+        if (index <= last || index >= length)
+          throw new SerdeDecodeError(`Invalid index ${index} of sparse array of length ${length}`, indexOffset);
+        result[last = index] = serde.deserialize(reader, ctx);
+      }
     }
+    else {
+      ctx.assertLength(reader, length, 'maxCollectionLength', 1);
+      result = new Array(length);
+      for (let i = 0; i < length; ++i) {
+        result[i] = serde.deserialize(reader, ctx);
+      }
+    }
+    if (props)
+      deserializeEntries(ctx, reader, result);
   }
   else {
-    const entries = new Array(length);
-    for (let i = 0; i < length; ++i) {
-      const key = serde.deserializeAs('string', reader, ctx);
-      const value = serde.deserialize(reader, ctx);
-      entries[i] = [key, value];
-    }
-    result = Object.fromEntries(entries);
+    result = nullPrototype ? Object.create(null) : {};
+    deserializeEntries(ctx, reader, result);
   }
   
-  for (const [key, value] of Object.entries(result)) {
-    if (value instanceof Reference) {
-      ctx.deref(value, obj => {
-        result[key] = obj;
+  for (const key of Object.keys(result)) {
+    if (result[key] instanceof Reference) {
+      ctx.deref(result[key], obj => {
+        setEntry(result, key, obj);
       });
     }
   }
+  // only once references have been substituted
+  if (frozen || sealed || nonExtensible) {
+    ctx.finalize(() => {
+      if (frozen) Object.freeze(result);
+      else if (sealed) Object.seal(result);
+      else Object.preventExtensions(result);
+    });
+  }
   
   return result;
 }
+  
+/** Read the properties written by `serializeEntries` into `target`. */
+function deserializeEntries(ctx, reader, target) {
+  const { serde } = ctx;
+  const length = reader.readUInt();
+  ctx.assertLength(reader, length, 'maxCollectionLength', 2);
+  for (let i = 0; i < length; ++i) {
+    const offset = reader.tell();
+    const key = serde.deserializeAs('string', reader, ctx);
+    if (Array.isArray(target) && (key === 'length' || isArrayIndex(key)))
+      throw new SerdeDecodeError(`Invalid array property: ${key}`, offset);
+    setEntry(target, key, serde.deserialize(reader, ctx));
+  }
+}
+  
+/** Build the de/serializer pair of a `setSimple` subprotocol, plus its conversion from & to data for other backends. */
+function simpleProtocol(subprotocol, filter, rebuild) {
+  const toData = value => {
+    const datafn = value => cloneData(value);
+    const data = filter(value, datafn);
+    if (data && typeof data === 'object' && !data[SERDE]) data[SERDE] = 'data-object';
+    return data;
+  };
+  const fromData = (ctx, data, version) => rebuild(migrateData(ctx.serde, subprotocol, version, data), ctx.deref);
+  
+  return [
+    (ctx, writer, value) => {
+      ctx.serde.serialize(toData(value), writer, ctx);
+    },
+    (ctx, reader, version) => fromData(ctx, ctx.serde.deserialize(reader, ctx), version),
+    { toData, fromData },
+  ];
+}
+
+/** Acquire a Writer of `Serde.writerPool`, or a new Writer if pooling is disabled. */
+function acquireWriter() {
+  return Serde.writerPool?.acquire() ?? new Writer();
+}
+
+function releaseWriter(writer) {
+  Serde.writerPool?.release(writer);
+}
+
+/** Write the complete payload of `value`, i.e. the optional header followed by all references, compressed & followed
+ * by a checksum if selected.
+ */
+function writePayload(ctx, writer, value, subprotocol) {
+  const { compression } = ctx.options;
+  const start = writer.tell();
+  const body = beginPayload(ctx, writer, value, subprotocol);
+  if (perf.enabled)
+    perf.measure('writeReferences', () => writeReferences(ctx, writer), writer);
+  else
+    writeReferences(ctx, writer);
+  
+  if (compression)
+    replaceBody(writer, body, codec.compress(compression, writer.buffer.slice(body, writer.tell())));
+  appendChecksum(ctx, writer, start);
+}
+
+/** Write the optional header & register `value` as the root reference. Returns the offset of the payload body. */
+function beginPayload(ctx, writer, value, subprotocol) {
+  const { compression, checksum, index } = ctx.options;
+  if (ctx.options.compact)
+    writer.compact = true;
+  if (ctx.options.canonical)
+    writer.canonical = true;
+  if (index && writer.compact)
+    throw new Error('Indices are not supported by the compact encoding');
+  if (ctx.options.header || compression || checksum || index) {
+    writeHeader(writer, {
+      version: FORMAT_VERSION,
+      flags: { compact: writer.compact, compressed: !!compression, checksum: !!checksum, indexed: !!index },
+      codec: compression,
+      checksum,
+    });
+  }
+  ctx.ref(value, subprotocol, true);
+  return writer.tell();
+}
+
+/** Replace the payload body starting at `body` with its compressed `bytes`. */
+function replaceBody(writer, body, bytes) {
+  writer.truncate(body);
+  writer.writeBytes(bytes);
+}
+
+/** Append the checksum of the payload starting at `start` if selected. */
+function appendChecksum(ctx, writer, start) {
+  const { checksum } = ctx.options;
+  if (checksum)
+    writer.writeUInt32(codec.checksum(checksum, writer.buffer.subarray(start, writer.tell())));
+}
+
+/** Read a complete payload as written by `writePayload`, detecting & validating its header if present. */
+function readPayload(ctx, reader) {
+  reader = openPayload(ctx, reader);
+  if (perf.enabled)
+    return perf.measure('readReferences', () => readReferences(ctx, reader), reader);
+  return readReferences(ctx, reader);
+}
+
+/** Detect & validate the header of a payload if present. Returns the reader of the decompressed & upgraded body. */
+function openPayload(ctx, reader) {
+  let body = openEnvelope(ctx, reader);
+  if (ctx.header?.codec)
+    body = new Reader(codec.decompress(ctx.header.codec, body.buffer.subarray(body.tell()), ctx.limits?.maxBytes, body.tell()));
+  return openBody(ctx, body);
+}
+
+/** Detect & validate the header of a payload if present & verify its checksum before anything else is decoded.
+ * Returns the reader of the payload body, which may still be compressed.
+ */
+function openEnvelope(ctx, reader) {
+  const start = reader.tell();
+  if (hasHeader(reader.buffer, start)) {
+    const header = readHeader(reader);
+    if (header.flags.stream)
+      throw new Error('Payload is in the stream layout, use deserializeStream instead');
+    ctx.header = header;
+    
+    if (header.checksum) {
+      const end = reader.buffer.length - codec.CHECKSUM_SIZE[header.checksum];
+      if (end < reader.tell())
+        throw new SerdeDecodeError('Unexpected end of payload: missing checksum', reader.tell());
+      if (codec.checksum(header.checksum, reader.buffer.subarray(start, end)) !== new Reader(reader.buffer, end).readUInt32())
+        throw new SerdeDecodeError('Checksum mismatch', end);
+      reader = new Reader(reader.buffer.subarray(0, end), reader.tell());
+    }
+  }
+  else if (ctx.options.header) {
+    throw new Error('Not a serde payload: missing magic bytes');
+  }
+  
+  if (ctx.options.checksum && !ctx.header?.checksum)
+    throw new Error('Payload has no checksum');
+  return reader;
+}
+
+/** Upgrade the decompressed payload body & apply the encoding of its header or options. */
+function openBody(ctx, reader) {
+  if (ctx.header) {
+    reader = upgradePayload(ctx, reader);
+    reader.compact = !!ctx.header.flags.compact;
+  }
+  else if (ctx.options.compact) {
+    reader.compact = true;
+  }
+  
+  if (ctx.limits && reader.remaining() > ctx.limits.maxBytes)
+    throw new SerdeDecodeError(`Payload of ${reader.remaining()} bytes exceeds maxBytes of ${ctx.limits.maxBytes}`, reader.tell());
+  return reader;
+}
+
+/** Chain the registered upgrades to lift the remaining payload body towards the current format version. Bodies of
+ * format versions from `NATIVE_FORMAT_VERSION` on need no upgrade, but are read in their version if none is registered.
+ */
+function upgradePayload(ctx, reader) {
+  const { header } = ctx;
+  let { version } = header;
+  if (!ctx.serde.upgrades.has(version)) {
+    if (version < NATIVE_FORMAT_VERSION)
+      throw new Error(`No upgrade path from serde format version ${version}`);
+    ctx.version = version;
+    return reader;
+  }
+  
+  let body = reader.buffer.subarray(reader.tell());
+  for (; version < FORMAT_VERSION; ++version) {
+    const upgrade = ctx.serde.upgrades.get(version);
+    if (!upgrade) {
+      if (version < NATIVE_FORMAT_VERSION)
+        throw new Error(`No upgrade path from serde format version ${version}`);
+      break;
+    }
+    body = upgrade(body, header);
+  }
+  ctx.version = version;
+  return new Reader(body);
+}
+
+/** Read a string of format version 1, which is prefixed with its UTF-16 length rather than its UTF-8 byte length.
+ * Skips UTF-8 sequences until they cover `length` UTF-16 code units: 4-byte sequences encode surrogate pairs while
+ * lone surrogates were encoded as U+FFFD.
+ */
+function readLegacyString(reader, length) {
+  const { buffer } = reader;
+  const start = reader.tell();
+  let cursor = start;
+  for (let units = 0; units < length && cursor < buffer.length; ) {
+    const lead = buffer[cursor];
+    const size = lead < 0x80 ? 1 : lead < 0xE0 ? 2 : lead < 0xF0 ? 3 : 4;
+    cursor += size;
+    units += size === 4 ? 2 : 1;
+  }
+  return decode(reader.readBytes(cursor - start));
+}
 
 /** `writeReferences` serializes objects found in `ctx.refs` in an ad-hoc
  * manner: it tracks which objects from `ctx.refs` have already been
@@ -437,34 +1337,112 @@ function deserializeObject(ctx, reader) {
  * serialization of these objects.
  */
 function writeReferences(ctx, writer) {
-  const written = new Set();
+  const cursorStart = writer.tell();
+  writer.writeUInt32(0);
+  if (ctx.options.index)
+    ctx.index = { start: cursorStart, records: [], buffers: [] };
+  
+  let next = ctx.refs.pop();
+  while (next) {
+    const [obj, ref] = next;
+    if (!ctx.sorting?.has(obj))
+      writeRecord(ctx, writer, obj, ref);
+    next = perf.enabled ? perf.measure('writeReferences.findNext', () => ctx.refs.pop()) : ctx.refs.pop();
+  }
   
+  const cursorEnd = writer.tell();
+  writer.seek(cursorStart);
+  writer.writeUInt32(ctx.refs.size);
+  writer.seek(cursorEnd);
+  if (ctx.index)
+    writeIndex(ctx, writer);
+}
+
+/** Counterpart of `writeReferences` awaiting async subprotocols. */
+async function writeReferencesAsync(ctx, writer) {
   const cursorStart = writer.tell();
   writer.writeUInt32(0);
+  if (ctx.options.index)
+    ctx.index = { start: cursorStart, records: [], buffers: [] };
   
   let next = ctx.refs.pop();
   while (next) {
     const [obj, ref] = next;
-    written.add(obj);
-    
-    writer.writeUInt32(ref.id);
-    
-    if (ref.subprotocol) {
-      writer.writeBool(true);
-      writer.writeUInt32(hash(ref.subprotocol));
-      ctx.serde.serializeAs(ref.subprotocol, obj, writer, ctx);
-    } else {
-      writer.writeBool(false);
-      ctx.serde.serialize(obj, writer, ctx);
-    }
-    
-    next = measure('writeReferences.findNext', () => ctx.refs.pop());
+    await writeRecordAsync(ctx, writer, obj, ref);
+    next = ctx.refs.pop();
   }
   
   const cursorEnd = writer.tell();
   writer.seek(cursorStart);
   writer.writeUInt32(ctx.refs.size);
   writer.seek(cursorEnd);
+  if (ctx.index)
+    writeIndex(ctx, writer);
+}
+
+/** Write the index table collected in `ctx.index`: the offset of each record by ID, the number of ArrayBuffers & the
+ * offset of each, followed by the offset of the index table itself. Offsets are relative to the payload body.
+ */
+function writeIndex(ctx, writer) {
+  const { start, records, buffers } = ctx.index;
+  const offset = writer.tell() - start;
+  records.forEach(record => writer.writeUInt32(record));
+  writer.writeUInt32(buffers.length);
+  buffers.forEach(buffer => writer.writeUInt32(buffer));
+  writer.writeUInt32(offset);
+}
+
+/** Read the index table at the end of the payload body starting at the reader's cursor. Returns absolute offsets. */
+function readIndex(reader) {
+  const start = reader.tell();
+  const end = reader.buffer.length;
+  const count = reader.readUInt32();
+  if (end - start < 8)
+    throw new SerdeDecodeError('Unexpected end of payload: missing index', end);
+
+  const offset = new Reader(reader.buffer, end - 4).readUInt32();
+  const table = new Reader(reader.buffer.subarray(0, end - 4), start + offset);
+  if (start + offset + count * 4 + 4 > end - 4)
+    throw new SerdeDecodeError(`Invalid index offset: ${offset}`, end - 4);
+
+  const read = () => {
+    const position = table.tell();
+    const offset = table.readUInt32();
+    if (start + offset >= table.buffer.length)
+      throw new SerdeDecodeError(`Invalid index entry: ${offset}`, position);
+    return start + offset;
+  };
+  const records = Array.from({ length: count }, read);
+  const buffers = Array.from({ length: table.readUInt32() }, read);
+  return { records, buffers };
+}
+
+/** Write a single reference record, i.e. the reference's ID followed by its tagged value. */
+function writeRecord(ctx, writer, obj, ref) {
+  if (ctx.index)
+    ctx.index.records[ref.id] = writer.tell() - ctx.index.start;
+  writer.writeUInt(ref.id);
+  
+  if (ref.subprotocol) {
+    writer.writeBool(true);
+    writeTag(ctx, writer, ref.subprotocol);
+    ctx.serde.serializeAs(ref.subprotocol, obj, writer, ctx);
+  } else {
+    writer.writeBool(false);
+    ctx.serde.serialize(obj, writer, ctx);
+  }
+}
+
+/** Counterpart of `writeRecord` awaiting async subprotocols. Writes the same layout. */
+async function writeRecordAsync(ctx, writer, obj, ref) {
+  if (ctx.index)
+    ctx.index.records[ref.id] = writer.tell() - ctx.index.start;
+  writer.writeUInt(ref.id);
+  writer.writeBool(!!ref.subprotocol);
+  
+  const subprotocol = ref.subprotocol ?? ctx.serde.getSubProtocolOf(obj);
+  writeTag(ctx, writer, subprotocol);
+  await serializeAsAsync(ctx, writer, obj, subprotocol);
 }
 
 /** `readReferences` restores references written by `writeReferences`.
@@ -472,33 +1450,230 @@ function writeReferences(ctx, writer) {
  * but resolution instead.
  */
 function readReferences(ctx, reader) {
-  const { serde, refs } = ctx;
   const count = reader.readUInt32();
+  ctx.assertLength(reader, count, 'maxReferences', 2);
+  const objs = {};
+  
+  for (let i = 0; i < count; ++i) {
+    readRecord(ctx, reader, objs);
+  }
+  
+  return resolveReferences(ctx, objs, reader.tell());
+}
+
+/** Counterpart of `readReferences` awaiting async subprotocols. */
+async function readReferencesAsync(ctx, reader) {
+  const count = reader.readUInt32();
+  ctx.assertLength(reader, count, 'maxReferences', 2);
   const objs = {};
   
   for (let i = 0; i < count; ++i) {
-    const refid = reader.readUInt32();
+    await readRecordAsync(ctx, reader, objs);
+  }
+  
+  return resolveReferences(ctx, objs, reader.tell());
+}
+
+/** Read a single reference record as written by `writeRecord` into `objs`. */
+function readRecord(ctx, reader, objs) {
+  const offset = reader.tell();
+  const refid = reader.readUInt();
+  if (refid in objs)
+    throw new SerdeDecodeError(`Duplicate reference ID: ${refid}`, offset);
+  
+  const subprotocolOverride = reader.readBool();
+  if (subprotocolOverride) {
+    const [subprotocol, version] = readTag(ctx, reader);
+    objs[refid] = ctx.serde.deserializeAs(subprotocol, reader, ctx, version);
+  } else {
+    objs[refid] = ctx.serde.deserialize(reader, ctx);
+  }
+}
+
+/** Counterpart of `readRecord` awaiting async subprotocols. */
+async function readRecordAsync(ctx, reader, objs) {
+  const offset = reader.tell();
+  const refid = reader.readUInt();
+  if (refid in objs)
+    throw new SerdeDecodeError(`Duplicate reference ID: ${refid}`, offset);
+  
+  // overridden subprotocols only affect serialization, the tag follows either way
+  reader.readBool();
+  objs[refid] = await ctx.serde.deserializeAsync(reader, ctx);
+}
+
+/** Serialize `value` with the given subprotocol, awaiting it if async. */
+async function serializeAsAsync(ctx, writer, value, subprotocol) {
+  const entry = ctx.serde.subprotocols[subprotocol];
+  if (!entry)
+    throw new Error(`No such subprotocol: ${subprotocol}`);
+  if (entry.async)
+    await entry.serialize(ctx, writer, value);
+  else
+    ctx.serde.serializeAs(subprotocol, value, writer, ctx);
+}
+
+/** Deserialize a value of the given subprotocol, awaiting it if async. */
+async function deserializeAsAsync(ctx, reader, subprotocol, version) {
+  const entry = ctx.serde.subprotocols[subprotocol];
+  if (!entry.async)
+    return ctx.serde.deserializeAs(subprotocol, reader, ctx, version);
+  
+  version = checkVersion(ctx, reader, subprotocol, version);
+  ++ctx.depth;
+  try {
+    return await entry.deserialize(ctx, reader, version);
+  }
+  finally {
+    --ctx.depth;
+  }
+}
+
+/** Validate the `version` of a subprotocol's payload & the nesting depth before deserializing it. Returns the version,
+ * defaulting to the current version.
+ */
+function checkVersion(ctx, reader, subprotocol, version) {
+  const { version: current } = ctx.serde.subprotocols[subprotocol];
+  version = version ?? current;
+  if (version > current)
+    throw new Error(`Payload of subprotocol ${subprotocol} has version ${version}, but only up to ${current} is known`);
+  if (ctx.limits && ctx.depth >= ctx.limits.maxDepth)
+    throw new SerdeDecodeError(`Nesting depth exceeds maxDepth of ${ctx.limits.maxDepth}`, reader.tell());
+  return version;
+}
+
+/** Write the tag identifying `subprotocol` & its version, as read by `readTag`.
+ * 
+ * Compact payloads maintain a tag table instead: each tag is written once, preceded by its new index in the table, and
+ * referenced by its index thereafter.
+ */
+function writeTag(ctx, writer, subprotocol) {
+  if (writer.compact) {
+    if (ctx.tags.has(subprotocol)) {
+      writer.writeVarint(ctx.tags.get(subprotocol));
+      return;
+    }
+    writer.writeVarint(ctx.tags.size);
+    ctx.tags.set(subprotocol, ctx.tags.size);
+  }
+  
+  const { version, id = hash(subprotocol) } = ctx.serde.subprotocols[subprotocol] ?? {};
+  if (version) {
+    writer.writeUInt32(VERSIONED_TAG);
+    writer.writeUInt32(id);
+    writer.writeUInt(version);
+  }
+  else {
+    writer.writeUInt32(id);
+  }
+}
+
+/** Read a tag written by `writeTag`. Returns the subprotocol & the version its payload was written with. */
+function readTag(ctx, reader) {
+  if (reader.compact) {
+    const index = reader.readVarint();
+    if (index < ctx.tags.length)
+      return ctx.tags[index];
+    if (index > ctx.tags.length)
+      throw new SerdeDecodeError(`Invalid tag table index: ${index}`, reader.tell());
     
-    const subprotocolOverride = reader.readBool();
-    if (subprotocolOverride) {
-      const subprotocol = serde.protocolFromHash(reader.readUInt32());
-      objs[refid] = ctx.serde.deserializeAs(subprotocol, reader, ctx);
-    } else {
-      objs[refid] = ctx.serde.deserialize(reader, ctx);
+    reader.compact = false;
+    try {
+      ctx.tags.push(readTag(ctx, reader));
+    } finally {
+      reader.compact = true;
     }
+    return ctx.tags[index];
   }
   
-  for (const ref of refs) {
+  const tag = reader.readUInt32();
+  if (tag !== VERSIONED_TAG)
+    return [protocolFromTag(ctx, reader, tag), 0];
+  
+  const subprotocol = protocolFromTag(ctx, reader, reader.readUInt32());
+  return [subprotocol, reader.readUInt()];
+}
+
+/** Write the tag of `value`'s subprotocol followed by its data, as read by `readValue`. */
+function writeValue(serde, ctx, writer, value) {
+  const subprotocol = serde.getSubProtocolOf(value);
+  writeTag(ctx, writer, subprotocol);
+  serde.serializeAs(subprotocol, value, writer, ctx);
+}
+
+function readValue(serde, ctx, reader) {
+  const [subprotocol, version] = readTag(ctx, reader);
+  return serde.deserializeAs(subprotocol, reader, ctx, version);
+}
+
+function protocolFromTag(ctx, reader, hash) {
+  if (!ctx.serde.hashes.has(hash))
+    throw new SerdeDecodeError(`Failed subprotocol hash lookup: ${hash.toString(16)}`, reader.tell() - 4);
+  return ctx.serde.hashes.get(hash);
+}
+
+/** Chain the registered migrations of `subprotocol` to upgrade `data` from `version` to the current version. */
+function migrateData(serde, subprotocol, version, data) {
+  const { version: current } = serde.subprotocols[subprotocol];
+  const migrations = serde.migrations.get(subprotocol);
+  
+  for (; version < current; ++version) {
+    const migration = migrations?.get(version);
+    if (!migration)
+      throw new Error(`No migration of subprotocol ${subprotocol} from version ${version}`);
+    data = migration(data);
+  }
+  return data;
+}
+
+/** Substitute all references collected in `ctx` with their restored objects & return the root object. `offset` is the
+ * end of the payload, reported by errors.
+ */
+function resolveReferences(ctx, objs, offset) {
+  if (!(0 in objs))
+    throw new SerdeDecodeError('Root reference not found', offset);
+  for (const ref of ctx.refs) {
     if (!(ref.id in objs))
-      throw new Error(`Reference ID not found: ${ref.id}`);
+      throw new SerdeDecodeError(`Reference ID not found: ${ref.id}`, offset);
     ref.substitute(objs[ref.id]);
   }
+  for (const finalize of ctx.finalizers.splice(0)) {
+    finalize();
+  }
   
   // sanity check: no more Reference instances should exist
   assertReferenceless(objs[0]);
   return objs[0];
 }
 
+/** Sort `items` of the Set or Map `container` by the canonical encoding of their values `valuesOf(item)` on their own,
+ * which is independent of the items' order. The records of containers being sorted are left out of these encodings,
+ * so cycles back to them end in a reference. Ties between equal items are broken by the IDs of their values which are
+ * already referenced, as these are no longer interchangeable. Equal items whose values are not referenced yet keep
+ * their order.
+ */
+function sortCanonical(ctx, container, items, valuesOf) {
+  const sorting = new Set(ctx.sorting).add(container);
+  const keyOf = item => {
+    const keyCtx = new SerializeContext(ctx.serde, { canonical: true });
+    keyCtx.sorting = sorting;
+    const writer = new Writer();
+    writePayload(keyCtx, writer, valuesOf(item));
+    return writer.bytes();
+  };
+  const keys = new Map(items.map(item => [item, keyOf(item)]));
+  const ids = item => valuesOf(item).map(value => ctx.refs.all.get(value)?.id ?? Infinity);
+  return items.sort((a, b) => compareBytes(keys.get(a), keys.get(b)) || compareBytes(ids(a), ids(b)));
+}
+
+function compareBytes(a, b) {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; ++i) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
 function isValidPair([key, value]) {
   return typeof key !== 'symbol' &&
     typeof value !== 'symbol' &&
@@ -509,6 +1684,9 @@ function assertReferenceless(obj, visited = new Set()) {
   if (visited.has(obj))
     return;
   visited.add(obj);
+  // views hold no references, but may hold millions of elements
+  if (ArrayBuffer.isView(obj))
+    return;
   
   for (const key in obj) {
     const value = obj[key];
@@ -1,3 +1,6 @@
+import { SerdeDecodeError } from './errors'
+import { CompactNumber } from './writer'
+
 const BI8 = BigInt(8);
 
 type Flags = [boolean, boolean, boolean, boolean, boolean, boolean, boolean, boolean];
@@ -6,16 +9,36 @@ type Flags = [boolean, boolean, boolean, boolean, boolean, boolean, boolean, boo
  * advancing a cursor as it does.
  */
 export default class Reader {
+  /** Whether unsigned integers are read as varints. See `readUInt`. */
+  compact = false;
+  private _buffer!: Uint8Array;
+  /** DataView of `buffer`, cached as creating one per read is costly. */
+  private view!: DataView;
+  
   constructor(
-    public buffer: Uint8Array,
+    buffer: Uint8Array,
     public cursor = 0,
-  ) {}
+  ) {
+    this.buffer = buffer;
+  }
+  
+  get buffer() { return this._buffer }
+  set buffer(buffer: Uint8Array) {
+    this._buffer = buffer;
+    this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  }
   
   readBytes(size: number) {
     const cursor = this.advance(size);
     return this.buffer.slice(cursor, cursor + size);
   }
   
+  /** Like `readBytes`, but returns a view into this Reader's buffer rather than a copy. */
+  readView(size: number) {
+    const cursor = this.advance(size);
+    return this.buffer.subarray(cursor, cursor + size);
+  }
+  
   readBool() {
     return !!this.readByte();
   }
@@ -36,11 +59,45 @@ export default class Reader {
   }
   
   readUInt32() {
-    return new DataView(this.buffer.buffer, this.advance(4)).getUint32(0, true);
+    return this.view.getUint32(this.advance(4), true);
+  }
+  
+  readFloat32() {
+    return this.view.getFloat32(this.advance(4), true);
   }
   
   readNumber() {
-    return new DataView(this.buffer.buffer, this.advance(8)).getFloat64(0, true);
+    return this.view.getFloat64(this.advance(8), true);
+  }
+  
+  readVarint() {
+    const offset = this.cursor;
+    let result = 0;
+    for (let shift = 1; shift <= 2**49; shift *= 0x80) {
+      const byte = this.readByte();
+      result += (byte & 0x7F) * shift;
+      if (result > Number.MAX_SAFE_INTEGER) break;
+      if (!(byte & 0x80)) return result;
+    }
+    throw new SerdeDecodeError('Varint exceeds safe integer range', offset);
+  }
+  
+  /** Read an unsigned integer such as a length, count or ID: a varint if this Reader is compact, else a UInt32. */
+  readUInt() {
+    return this.compact ? this.readVarint() : this.readUInt32();
+  }
+  
+  readCompactNumber() {
+    const tag = this.readByte();
+    if (tag < CompactNumber.SmallMax) return tag;
+    
+    switch (tag) {
+      case CompactNumber.UInt: return this.readVarint();
+      case CompactNumber.NegInt: return -this.readVarint();
+      case CompactNumber.Float32: return this.readFloat32();
+      case CompactNumber.Float64: return this.readNumber();
+      default: throw new SerdeDecodeError(`Invalid compact number tag: ${tag}`, this.cursor - 1);
+    }
   }
   
   readBigint() {
@@ -56,12 +113,22 @@ export default class Reader {
     return neg ? -bi : bi;
   }
   
+  /** Skip the padding written by `Writer.align`. */
+  align() {
+    this.advance(this.readByte());
+    return this;
+  }
+  
+  /** Advance the cursor by `count` bytes & return its previous position. Throws if fewer bytes remain. */
   advance(count: number) {
     const cursor = this.cursor;
+    if (count > this.remaining())
+      throw new SerdeDecodeError(`Unexpected end of payload: expected ${count} more bytes, got ${this.remaining()}`, cursor);
     this.cursor += count;
     return cursor;
   }
   
   tell() { return this.cursor }
+  remaining() { return this.buffer.length - this.cursor }
   seek(pos: number) { this.cursor = pos; return this }
 }
@@ -0,0 +1,198 @@
+//////////////////////////////////////////////////////////////////////
+// Submodule for schema-driven subprotocols
+// Schemas describe values of a fixed structure. Their layout is fully determined by the schema, so unlike generic
+// objects no keys or subprotocol tags need to be written for their fields.
+import type { Layout } from './describe'
+import type Reader from './reader'
+import type { DeserializeContext, SerializeContext } from './types'
+import type Writer from './writer'
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** A Schema describes the binary layout of values of type `T`. */
+export interface Schema<T> {
+  readonly kind: string;
+  serialize(ctx: SerializeContext, writer: Writer, value: T): void;
+  /** Read a value of this schema. May return a `Reference` for values which are yet to be restored, which containing
+   * schemas resolve through `ctx.deref`.
+   */
+  deserialize(ctx: DeserializeContext, reader: Reader): T;
+}
+
+export type Fields = { [field: string]: Schema<any> };
+
+export type StructValue<F extends Fields> = { [K in keyof F]: Infer<F[K]> };
+
+export interface StructSchema<F extends Fields, T = StructValue<F>> extends Schema<T> {
+  readonly kind: 'struct';
+  readonly fields: F;
+}
+
+export interface ArraySchema<T> extends Schema<T[]> {
+  readonly kind: 'array';
+  readonly items: Schema<T>;
+}
+
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly kind: 'optional';
+  readonly inner: Schema<T>;
+}
+
+/** Infer the value type described by the given schema. */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/** Schema builders. */
+export const s = {
+  bool: () => primitive<boolean>('bool',
+    (writer, value) => writer.writeBool(value),
+    reader => reader.readBool(),
+  ),
+  uint8: () => primitive<number>('uint8',
+    (writer, value) => writer.writeByte(assertInt('uint8', value, 0, 0xFF)),
+    reader => reader.readByte(),
+  ),
+  uint32: () => primitive<number>('uint32',
+    (writer, value) => writer.writeUInt32(assertInt('uint32', value, 0, 0xFFFFFFFF)),
+    reader => reader.readUInt32(),
+  ),
+  int32: () => primitive<number>('int32',
+    (writer, value) => writer.writeUInt32(assertInt('int32', value, -0x80000000, 0x7FFFFFFF) >>> 0),
+    reader => reader.readUInt32() | 0,
+  ),
+  /** Unsigned integer of up to 53 bits, written as varint. */
+  varint: () => primitive<number>('varint',
+    (writer, value) => writer.writeVarint(value),
+    reader => reader.readVarint(),
+  ),
+  float32: () => primitive<number>('float32',
+    (writer, value) => writer.writeFloat32(value),
+    reader => reader.readFloat32(),
+  ),
+  float64: () => primitive<number>('float64',
+    (writer, value) => writer.writeNumber(value),
+    reader => reader.readNumber(),
+  ),
+  bigint: () => primitive<bigint>('bigint',
+    (writer, value) => writer.writeBigint(value),
+    reader => reader.readBigint(),
+  ),
+  /** UTF-8 string, prefixed with its byte length. */
+  string: (): Schema<string> => ({
+    kind: 'string',
+    serialize(_, writer, value) {
+      const bytes = encoder.encode(value);
+      writer.writeUInt(bytes.length);
+      writer.writeBytes(bytes);
+    },
+    deserialize(ctx, reader) {
+      const length = reader.readUInt();
+      ctx.assertLength(reader, length, 'maxStringLength');
+      return decoder.decode(reader.readBytes(length));
+    },
+  }),
+  bytes: () => primitive<Uint8Array>('bytes',
+    (writer, value) => {
+      writer.writeUInt(value.length);
+      writer.writeBytes(value);
+    },
+    reader => reader.readBytes(reader.readUInt()),
+  ),
+  /** Any value supported by the Serde, including references to objects. Written with its subprotocol tag. */
+  any: <T = unknown>(): Schema<T> => ({
+    kind: 'any',
+    serialize(ctx, writer, value) {
+      ctx.serde.serialize(ctx.ref(value), writer, ctx);
+    },
+    deserialize: (ctx, reader) => ctx.serde.deserialize(reader, ctx),
+  }),
+  optional: <T>(inner: Schema<T>): OptionalSchema<T> => ({
+    kind: 'optional',
+    inner,
+    serialize(ctx, writer, value) {
+      writer.writeBool(value !== undefined);
+      if (value !== undefined) inner.serialize(ctx, writer, value);
+    },
+    deserialize: (ctx, reader) => reader.readBool() ? inner.deserialize(ctx, reader) : undefined,
+  }),
+  array: <T>(items: Schema<T>): ArraySchema<T> => ({
+    kind: 'array',
+    items,
+    serialize(ctx, writer, value) {
+      writer.writeUInt(value.length);
+      for (const item of value) {
+        items.serialize(ctx, writer, item);
+      }
+    },
+    deserialize(ctx, reader) {
+      const length = reader.readUInt();
+      ctx.assertLength(reader, length, 'maxCollectionLength');
+      const result = new Array<T>(length);
+      for (let i = 0; i < result.length; ++i) {
+        ctx.deref(items.deserialize(ctx, reader), item => { result[i] = item });
+      }
+      return result;
+    },
+  }),
+  /** A struct of fixed fields, written in order of their declaration. `create` allows restoring the fields onto another
+   * object than a plain object, e.g. `() => Object.create(MyClass.prototype)`.
+   */
+  struct: <F extends Fields, T extends object = StructValue<F>>(fields: F, create?: () => T): StructSchema<F, T> => {
+    const entries = Object.entries(fields);
+    return {
+      kind: 'struct',
+      fields,
+      serialize(ctx, writer, value: any) {
+        for (const [key, field] of entries) {
+          field.serialize(ctx, writer, value[key]);
+        }
+      },
+      deserialize(ctx, reader) {
+        const result: any = create ? create() : {};
+        for (const [key, field] of entries) {
+          ctx.deref(field.deserialize(ctx, reader), value => { result[key] = value });
+        }
+        return result;
+      },
+    };
+  },
+};
+
+const PRIMITIVES = ['bool', 'uint8', 'uint32', 'int32', 'varint', 'float32', 'float64', 'bigint', 'string', 'bytes', 'any'];
+
+/** Describe the layout of `schema`, or undefined if it is or contains a custom schema of unknown layout. */
+export function describeSchema(schema: Schema<any>): Layout | undefined {
+  switch (schema.kind) {
+    case 'optional': {
+      const inner = describeSchema((schema as OptionalSchema<any>).inner);
+      return inner && { kind: 'optional', inner };
+    }
+    case 'array': {
+      const items = describeSchema((schema as ArraySchema<any>).items);
+      return items && { kind: 'array', items };
+    }
+    case 'struct': {
+      const fields = Object.entries((schema as StructSchema<Fields>).fields).map(([name, field]) => [name, describeSchema(field)]);
+      if (fields.some(([, layout]) => !layout)) return undefined;
+      return { kind: 'struct', fields: fields as [string, Layout][] };
+    }
+    default:
+      return PRIMITIVES.includes(schema.kind) ? { kind: schema.kind } as Layout : undefined;
+  }
+}
+
+function primitive<T>(kind: string, write: (writer: Writer, value: T) => void, read: (reader: Reader) => T): Schema<T> {
+  return {
+    kind,
+    serialize(_, writer, value) {
+      write(writer, value);
+    },
+    deserialize: (_, reader) => read(reader),
+  };
+}
+
+function assertInt(kind: string, value: number, min: number, max: number) {
+  if (!Number.isInteger(value) || value < min || value > max)
+    throw new Error(`Expected ${kind}, got ${value}`);
+  return value;
+}
@@ -0,0 +1,168 @@
+//////////////////////////////////////////////////////////////////////
+// Submodule for streaming de/serialization
+// Stream layout: a sequence of frames, each consisting of a UInt32 byte length followed by one reference record as
+// written by `writeReferences`. A frame of length 0 marks the end of the stream, replacing the up-front reference
+// count of the buffered layout. The stream may be preceded by a header with the `stream` flag set.
+import { SerdeDecodeError } from './errors'
+import { Header, hasHeader, HEADER_SIZE, readHeader } from './header'
+import Reader from './reader'
+import type { DeserializeOptions, SerializeOptions } from './types'
+
+/** Minimal structural type of a WHATWG `WritableStream`. */
+export interface WebWritableStream {
+  getWriter(): {
+    ready: Promise<unknown>;
+    write(chunk: Uint8Array): Promise<void>;
+    releaseLock(): void;
+  };
+}
+
+/** Minimal structural type of a NodeJS `stream.Writable`. */
+export interface NodeWritable {
+  write(chunk: Uint8Array): boolean;
+  once(event: 'drain' | 'error', listener: (...args: any[]) => void): unknown;
+  off?(event: 'drain' | 'error', listener: (...args: any[]) => void): unknown;
+}
+
+/** Minimal structural type of a WHATWG `ReadableStream`. */
+export interface WebReadableStream {
+  getReader(): {
+    read(): Promise<{ done: boolean, value?: Uint8Array }>;
+    releaseLock(): void;
+  };
+}
+
+export type StreamSink = WebWritableStream | NodeWritable;
+/** NodeJS `stream.Readable`s are async iterables and thus covered as well. */
+export type StreamSource = WebReadableStream | AsyncIterable<Uint8Array>;
+
+export type StreamReadOptions = DeserializeOptions;
+
+export interface StreamOptions extends SerializeOptions {
+  /** Minimum number of bytes to collect before emitting a chunk to the sink. Defaults to 16 KiB. */
+  chunkSize?: number;
+}
+
+/** Uniform interface over the supported sinks which respects backpressure. */
+export interface ChunkSink {
+  write(chunk: Uint8Array): Promise<void>;
+  release(): void;
+}
+
+export function toChunkSink(sink: StreamSink): ChunkSink {
+  if ('getWriter' in sink) {
+    const writer = sink.getWriter();
+    return {
+      async write(chunk) {
+        await writer.ready;
+        await writer.write(chunk);
+      },
+      release: () => writer.releaseLock(),
+    };
+  }
+  
+  return {
+    write: chunk => new Promise<void>((resolve, reject) => {
+      if (sink.write(chunk)) return resolve();
+      const onDrain = () => { sink.off?.('error', onError); resolve() };
+      const onError = (err: any) => { sink.off?.('drain', onDrain); reject(err) };
+      sink.once('drain', onDrain);
+      sink.once('error', onError);
+    }),
+    release: () => {},
+  };
+}
+
+export async function* iterateChunks(source: StreamSource): AsyncGenerator<Uint8Array> {
+  if (!('getReader' in source)) {
+    for await (const chunk of source) yield chunk;
+    return;
+  }
+  
+  const reader = source.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      if (value) yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** Reassemble the frames of the stream layout from arbitrarily sized chunks. Yields each frame's record bytes.
+ * `onHeader` is called with the stream's header, or `undefined` if it has none, before the first frame is yielded.
+ * Fails as soon as a frame's length prefix would exceed `maxBytes` of frames in total, before buffering the frame.
+ */
+export async function* readFrames(
+  source: StreamSource,
+  onHeader?: (header: Header | undefined) => void,
+  maxBytes = Infinity,
+): AsyncGenerator<Uint8Array> {
+  // pending chunks are only copied once a frame is complete, keeping the reassembly of large frames linear
+  const chunks: Uint8Array[] = [];
+  let pending = 0;
+  /** Total bytes of the frames read so far, including their length prefixes. */
+  let total = 0;
+  // the smallest possible stream is longer than a header, so we can always afford to wait for a full header
+  let started = !onHeader;
+  
+  /** Copy the first `length` pending bytes without consuming them. */
+  const copy = (length: number) => {
+    const result = new Uint8Array(length);
+    for (let i = 0, offset = 0; offset < length; ++i) {
+      const part = chunks[i].subarray(0, length - offset);
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  };
+  
+  const skip = (length: number) => {
+    pending -= length;
+    while (length) {
+      if (chunks[0].length > length) {
+        chunks[0] = chunks[0].subarray(length);
+        return;
+      }
+      length -= chunks.shift()!.length;
+    }
+  };
+  
+  for await (const chunk of iterateChunks(source)) {
+    if (!chunk.length) continue;
+    chunks.push(chunk);
+    pending += chunk.length;
+    
+    if (!started) {
+      if (pending < HEADER_SIZE) continue;
+      started = true;
+      
+      const head = copy(pending);
+      if (hasHeader(head)) {
+        const reader = new Reader(head);
+        onHeader!(readHeader(reader));
+        skip(reader.tell());
+      } else {
+        onHeader!(undefined);
+      }
+    }
+    
+    while (pending >= 4) {
+      const length = new DataView(copy(4).buffer).getUint32(0, true);
+      if (length === 0) return;
+      if (total + 4 + length > maxBytes)
+        throw new SerdeDecodeError(`Stream exceeds maxBytes of ${maxBytes}`, total);
+      if (pending - 4 < length) break;
+      
+      total += 4 + length;
+      skip(4);
+      const frame = copy(length);
+      skip(length);
+      yield frame;
+    }
+  }
+  
+  throw new Error('Stream ended before its end marker');
+}
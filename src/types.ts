@@ -1,3 +1,7 @@
+import { SerdeDecodeError } from './errors'
+import type { Checksum, Codec } from './codec'
+import type { Layout } from './describe'
+import type { Header } from './header'
 import type Serde from './protocol'
 import type Reader from './reader'
 import type Writer from './writer'
@@ -5,6 +9,90 @@ import type Writer from './writer'
 export const SERDE = Symbol('SERDE');
 export const SUBSERDE = Symbol('SUBSERDE');
 
+export interface SerializeOptions {
+  /** Prepend the header envelope which identifies the payload & its format version. */
+  header?: boolean;
+  /** Use the compact encoding: varints for lengths & IDs, compact numbers and a per-payload tag table. */
+  compact?: boolean;
+  /** Compress the payload body with the given codec. Implies `header`. Deflate & gzip require NodeJS' `zlib` unless
+   * serialized with `serializeAsync`, which falls back to `CompressionStream`.
+   */
+  compression?: Codec;
+  /** Append a checksum of the payload, verified before anything is decoded. Implies `header`. */
+  checksum?: Checksum;
+  /** Store binary data separately: called with each `buffer` value & the ArrayBuffer of each `arraybuffer` &
+   * `typedarray` value, returning the key of the chunk its bytes are stored as, or undefined to inline them. Each
+   * ArrayBuffer is only passed once per payload. See `DeserializeOptions.chunks`.
+   */
+  chunks?: (value: ArrayBuffer | ArrayBufferView) => string | undefined;
+  /** Append an index of the offsets of all reference records, which allows `Serde.open` to decode records on demand.
+   * Implies `header`. Not supported by the compact encoding, whose tag table must be read in order.
+   */
+  index?: boolean;
+  /** Write the canonical encoding, where equal values yield identical bytes regardless of insertion order: object
+   * keys are sorted by code unit, Set items & Map entries by their own canonical encoding, references are written in
+   * order of their IDs, and NaN is written as the quiet NaN rather than with its payload. Equal Set items & Map
+   * entries are ordered by which is referenced first elsewhere; equal items not referenced before keep their order, so
+   * graphs which only differ in which of those is referenced later still differ in their encoding.
+   */
+  canonical?: boolean;
+}
+
+export interface DeserializeOptions {
+  /** Require the header envelope, rejecting payloads without it. Headers are always detected & validated. */
+  header?: boolean;
+  /** Read the compact encoding. Only required for payloads without header as it is otherwise flagged in the header. */
+  compact?: boolean;
+  /** Require a checksum, rejecting payloads without it. Checksums are always verified if present. */
+  checksum?: boolean;
+  /** Enforce decode limits for untrusted input. `true` applies `DEFAULT_LIMITS`, an object overrides individual limits. */
+  safe?: boolean | Partial<DecodeLimits>;
+  /** Format version of payloads without header, e.g. 1 for headerless payloads written before format version 2.
+   * Defaults to the current `FORMAT_VERSION`. Payloads with header are read in the version of their header.
+   */
+  formatVersion?: number;
+  /** Return views into the source rather than copies for `buffer` & `typedarray` values. The data of typed arrays is
+   * aligned relative to the start of the payload, thus unaligned data, e.g. of compressed payloads, is still copied.
+   * Views share memory with the source, which must not be modified while they are in use.
+   */
+  zeroCopy?: boolean;
+  /** Resolve the binary chunks stored separately by `SerializeOptions.chunks`. Chunks are not copied in `zeroCopy`
+   * mode either.
+   */
+  chunks?: (key: string) => Uint8Array | undefined;
+}
+
+/** Limits enforced by safe mode. Exceeding any throws a `SerdeDecodeError`. */
+export interface DecodeLimits {
+  /** Maximum size of the payload in bytes. */
+  maxBytes: number;
+  /** Maximum number of items of arrays, objects, sets & maps. */
+  maxCollectionLength: number;
+  /** Maximum byte length of strings. */
+  maxStringLength: number;
+  /** Maximum number of reference records. */
+  maxReferences: number;
+  /** Maximum nesting depth of values within a record. */
+  maxDepth: number;
+}
+
+export const DEFAULT_LIMITS: DecodeLimits = {
+  maxBytes: 16 * 1024 * 1024,
+  maxCollectionLength: 65536,
+  maxStringLength: 1024 * 1024,
+  maxReferences: 65536,
+  maxDepth: 64,
+};
+
+/** Offsets of the reference records of an indexed payload by ID, and of the first occurrence of each ArrayBuffer by
+ * its index. Offsets are relative to the payload body while serializing & absolute within the reader's buffer while
+ * deserializing.
+ */
+export interface PayloadIndex {
+  records: number[];
+  buffers: number[];
+}
+
 export type TypeMap = {
   [subprotocol: string]: unknown;
 };
@@ -12,9 +100,52 @@ export type TypeMap = {
 export interface SubProtocol<T = unknown> {
   serialize: Serializer<T>;
   deserialize: Deserializer<T>;
+  /** Current version of the subprotocol's payload layout. 0 if unversioned. */
+  version: number;
+  /** ID identifying the subprotocol on the wire, i.e. its explicit ID or else the hash of its name. */
+  id: number;
+  /** Whether `id` was explicitly assigned. */
+  explicit: boolean;
+  /** Whether the de/serializer may return promises, see `Serde.setAsync`. */
+  async?: boolean;
+  /** Layout of the payload for descriptions of the wire format, if known. See `Serde.describe`. */
+  layout?: Layout;
+  /** Conversion from & to the data of `setSimple` subprotocols, used by backends other than the binary one. */
+  simple?: {
+    toData(value: T): unknown;
+    fromData(ctx: DeserializeContext, data: any, version: number): T;
+  };
 };
 
+export interface RegistryEntry {
+  subprotocol: string;
+  id: number;
+  explicit: boolean;
+  version: number;
+}
+
+export interface SubProtocolOptions {
+  /** Replace an existing subprotocol of the same name. */
+  force?: boolean;
+  /** Version of the payload layout, written next to the subprotocol's hash. Defaults to 0, i.e. unversioned. */
+  version?: number;
+  /** Stable 32-bit ID identifying the subprotocol on the wire instead of the hash of its name. Explicit IDs avoid
+   * clashes between hashes & do not depend on the hash implementation.
+   */
+  id?: number;
+}
+
+/** A Migration upgrades the data of a `setSimple` subprotocol by one version. */
+export type Migration = (data: any) => any;
+
 export type DataObject<T> = { [SERDE]: 'data-object' } & T;
+
+/** The members of union `T` which select variant `V` through their `[SUBSERDE]` property, or `T` if none do. */
+export type VariantOf<T, V extends string> =
+  [Extract<T, { [SUBSERDE]: V }>] extends [never]
+  ? T
+  : Extract<T, { [SUBSERDE]: V }>;
+
 export type DeserializedData<T> =
   T extends object
   ? T extends (infer E)[]
@@ -31,13 +162,33 @@ export type DeserializedData<T> =
 
 /** A Serializer writes `value` to `writer` in a format which allows its corresponding `Deserializer` to restore it again. */
 export type Serializer<T, M extends TypeMap = any, Ctx = {}> = (ctx: SerializeContext<M, Ctx>, writer: Writer, value: T) => void;
-/** A Deserializer reads a value from `reader` in a format determined by its corresponding `Serializer`. */
-export type Deserializer<T, M extends TypeMap = any, Ctx = {}> = (ctx: DeserializeContext<M, Ctx>, reader: Reader) => T;
+/** A Deserializer reads a value from `reader` in a format determined by its corresponding `Serializer`. `version` is
+ * the subprotocol version the value was written with.
+ */
+export type Deserializer<T, M extends TypeMap = any, Ctx = {}> = (ctx: DeserializeContext<M, Ctx>, reader: Reader, version: number) => T;
+
+/** An AsyncSerializer is a `Serializer` which may await, e.g. sub-values through `ctx.serde.serializeAsync`. */
+export type AsyncSerializer<T, M extends TypeMap = any, Ctx = {}> = (ctx: SerializeContext<M, Ctx>, writer: Writer, value: T) => void | Promise<void>;
+/** An AsyncDeserializer is a `Deserializer` which may await, e.g. sub-values through `ctx.serde.deserializeAsync`. */
+export type AsyncDeserializer<T, M extends TypeMap = any, Ctx = {}> = (ctx: DeserializeContext<M, Ctx>, reader: Reader, version: number) => T | Promise<T>;
 
 export class SerializeContext<M extends TypeMap = any, Ctx = {}> {
-  refs = new References();
+  refs: References;
+  /** Index of each subprotocol in the tag table of compact payloads. */
+  tags = new Map<string, number>();
+  /** Index of each ArrayBuffer whose bytes have been written to the payload. */
+  buffers = new Map<ArrayBuffer, number>();
+  /** Index table being collected if `options.index` is set. */
+  index?: PayloadIndex & { start: number };
+  /** Sets & Maps being sorted if this context writes a sort key of the canonical encoding. Their records are omitted. */
+  sorting?: Set<object>;
   
-  constructor(public serde: Serde<M, Ctx>) {}
+  constructor(
+    public serde: Serde<M, Ctx>,
+    public options: SerializeOptions = {},
+  ) {
+    this.refs = new References(options.canonical);
+  }
   
   // prop method signature overload style
   // so we can pass the method along by itself w/ implied `this`
@@ -50,10 +201,47 @@ export class SerializeContext<M extends TypeMap = any, Ctx = {}> {
 }
 
 export class DeserializeContext<M extends TypeMap = any, Ctx = {}> {
+  /** Header of the payload currently being deserialized, if any. */
+  header?: Header;
+  /** Tag table of compact payloads, i.e. the subprotocol & version of each index. */
+  tags: [subprotocol: string, version: number][] = [];
+  /** Bytes of each ArrayBuffer read from the payload in order of their first occurrence. */
+  buffers: Uint8Array[] = [];
+  /** Index table of payloads opened for random access, see `Serde.open`. */
+  index?: PayloadIndex;
+  /** Limits of safe mode, if enabled. */
+  limits?: DecodeLimits;
+  /** Current nesting depth of values within the record being read. */
+  depth = 0;
+  /** Format version of the payload body currently being deserialized. Undefined for the current format version. */
+  version?: number;
+  /** Callbacks to run once all references are resolved. See `finalize`. */
+  finalizers: (() => void)[] = [];
+  
   constructor(
     public serde: Serde<M, Ctx>,
     public refs = new Set<DeReference>(),
-  ) {}
+    public options: DeserializeOptions = {},
+  ) {
+    const { safe, formatVersion } = options;
+    this.version = formatVersion;
+    if (safe) this.limits = { ...DEFAULT_LIMITS, ...(safe === true ? {} : safe) };
+  }
+  
+  /** Assert that `length` items of at least `size` bytes each can still be read from `reader`, and that `length` is
+   * within the given limit of safe mode. Prevents crafted lengths from allocating huge collections.
+   */
+  assertLength(reader: Reader, length: number, limit: 'maxCollectionLength' | 'maxStringLength' | 'maxReferences', size = 1) {
+    if (this.limits && length > this.limits[limit])
+      throw new SerdeDecodeError(`Length ${length} exceeds ${limit} of ${this.limits[limit]}`, reader.tell());
+    if (length * size > reader.remaining())
+      throw new SerdeDecodeError(`Length ${length} exceeds the remaining ${reader.remaining()} bytes`, reader.tell());
+  }
+  
+  /** Call `callback` once all references have been substituted, e.g. to freeze the value which substitutes them. */
+  finalize(callback: () => void) {
+    this.finalizers.push(callback);
+  }
   
   /** "Dereference" the given reference. `substitute` will be called with the actual object reference value. */
   deref = (ref: any, substitute: DeReference['substitute']) => {
@@ -74,6 +262,11 @@ class References {
   all = new Map<any, Reference>();
   pending: [any, Reference][] = [];
   nextId = 0;
+  /** Index of the next pending reference if `ordered`. */
+  private next = 0;
+  
+  /** `ordered` pops references in order of their IDs rather than most recent first. */
+  constructor(private ordered = false) {}
   
   push(value: any, subprotocol?: string): Reference {
     if (!this.all.has(value)) {
@@ -84,7 +277,18 @@ class References {
     return this.all.get(value)!;
   }
   
-  pop = () => this.pending.pop();
+  /** Register `value` under an existing reference without writing it, as the reader already knows it, e.g. from the
+   * previous value of a patch.
+   */
+  assume(value: any, ref: Reference) {
+    this.all.set(value, ref);
+    this.nextId = Math.max(this.nextId, ref.id + 1);
+  }
+  
+  pop = () => {
+    if (!this.ordered) return this.pending.pop();
+    return this.next < this.pending.length ? this.pending[this.next++] : undefined;
+  }
   
   get size() { return this.all.size }
 }
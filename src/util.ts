@@ -23,3 +23,13 @@ export const hash = (value: any) => parseInt(hashsum(value), 16);
 
 export const isArrayLike = (value: any): value is unknown[] => typeof value.length === 'number';
 export const isObject = (value: any): value is object => value && typeof value === 'object';
+/** Set `target[key]`, defining `__proto__` as an own property rather than replacing the prototype of `target`. */
+export function setEntry(target: any, key: string, value: unknown) {
+  if (key === '__proto__')
+    Object.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true });
+  else
+    target[key] = value;
+}
+
+/** Whether `key` is an array index, i.e. the canonical string of an integer below 2^32 - 1. */
+export const isArrayIndex = (key: string) => String(+key >>> 0) === key && +key !== 0xFFFFFFFF;
@@ -0,0 +1,469 @@
+//////////////////////////////////////////////////////////////////////
+// Submodule for verifying subprotocols
+// `verify` round-trips a value through a tracing wrapper of the Serde, which records the bytes each subprotocol writes &
+// reads in order, and compares the result structurally, including the identity of shared objects & cycles. `fuzz`
+// verifies randomly generated values of every subprotocol & decodes randomly mutated payloads of them.
+import type { Layout } from './describe'
+import { SerdeDecodeError } from './errors'
+import type Serde from './protocol'
+import type Reader from './reader'
+import { DeserializeContext, Reference, SerializeContext, SerializeOptions } from './types'
+import type Writer from './writer'
+
+export interface Verification {
+  /** The round-tripped value, undefined if it failed to round-trip. */
+  value?: unknown;
+  /** Problems found, each prefixed with the path of the value concerned, e.g. `$.foo[0]`. Empty if verified. */
+  errors: string[];
+}
+
+export interface VerifyOptions extends SerializeOptions {
+  /** Serialize the value as the given subprotocol rather than the subprotocol it is of. */
+  subprotocol?: string;
+}
+
+export interface FuzzOptions {
+  /** Seed of the pseudo random generator. Reports of failures include the seed to reproduce them. Defaults to 1. */
+  seed?: number;
+  /** Number of values generated per subprotocol. Defaults to 100. */
+  runs?: number;
+  /** Number of mutated payloads decoded per generated value. Defaults to 10. */
+  mutations?: number;
+  /** Generators of values of custom subprotocols. Values of standard & `setSchema` subprotocols are generated from
+   * their layout by default, all other subprotocols are skipped unless a generator is given.
+   */
+  generators?: { [subprotocol: string]: (random: Random) => unknown };
+}
+
+export interface FuzzFailure {
+  subprotocol: string;
+  /** `verify` if the generated value failed to verify, `mutation` if decoding a mutated payload threw anything but an
+   * `Error` or `SerdeDecodeError`, e.g. a `TypeError` of an unchecked read.
+   */
+  kind: 'verify' | 'mutation';
+  errors: string[];
+  /** The payload of the generated value, undefined if it failed to serialize, or the mutated payload. */
+  payload?: Uint8Array;
+}
+
+export interface FuzzReport {
+  seed: number;
+  failures: FuzzFailure[];
+  /** Custom subprotocols without a generator. */
+  skipped: string[];
+}
+
+/** Round-trip `value` & report every difference between it & the result, as well as subprotocols which read another
+ * number of bytes than they wrote.
+ */
+export function verify(serde: Serde<any, any>, value: unknown, options: VerifyOptions = {}): Verification {
+  const { subprotocol, ...serializeOptions } = options;
+  const tracer = new Tracer(serde);
+  let bytes: Uint8Array;
+  try {
+    bytes = subprotocol
+      ? tracer.serde.serializeAs(subprotocol, value, serializeOptions).compress().buffer
+      : tracer.serde.serialize(value, serializeOptions);
+  } catch (err: any) {
+    const hint = err instanceof RangeError ? ' (missing ctx.ref of a cyclic value?)' : '';
+    return { errors: [`$: Failed to serialize: ${err?.message}${hint}`] };
+  }
+  
+  let result: unknown;
+  let error: any;
+  try {
+    result = tracer.serde.deserialize(bytes, { compact: options.compact });
+  } catch (err) {
+    error = err;
+  }
+  
+  const errors = tracer.compare();
+  if (error) {
+    errors.push(`$: Failed to deserialize: ${error?.message}`);
+    return { errors };
+  }
+  errors.push(...compare(value, result));
+  return { value: result, errors };
+}
+
+/** Verify random values of every subprotocol of `serde` & decode random mutations of their payloads. */
+export function fuzz(serde: Serde<any, any>, options: FuzzOptions = {}): FuzzReport {
+  const { seed = 1, runs = 100, mutations = 10, generators = {} } = options;
+  const random = new Random(seed);
+  const report: FuzzReport = { seed, failures: [], skipped: [] };
+  
+  for (const { subprotocol } of serde.registry()) {
+    const layout = serde.subprotocols[subprotocol].layout;
+    const schema = layout && !['standard', 'variant', 'any'].includes(layout.kind);
+    const generate = generators[subprotocol]
+      ?? (layout?.kind === 'standard' ? STANDARD_GENERATORS[subprotocol] : undefined)
+      ?? (schema ? (random: Random) => fromLayout(random, layout) : undefined);
+    if (!generate) {
+      if (layout?.kind !== 'standard') report.skipped.push(subprotocol);
+      continue;
+    }
+    
+    for (let run = 0; run < runs; ++run) {
+      const options: VerifyOptions = { compact: random.chance(0.5) };
+      let value: unknown;
+      try {
+        value = generate(random);
+        // schema values are generated as their data, which is read back as the actual value
+        if (schema && !generators[subprotocol]) {
+          options.subprotocol = subprotocol;
+          value = serde.deserialize(serde.serializeAs(subprotocol, value).compress().buffer);
+        }
+      } catch (err: any) {
+        report.failures.push({ subprotocol, kind: 'verify', errors: [`$: Failed to generate: ${err?.message}`] });
+        continue;
+      }
+      
+      const { errors } = verify(serde, value, options);
+      let payload: Uint8Array | undefined;
+      try {
+        payload = options.subprotocol
+          ? serde.serializeAs(options.subprotocol, value, { compact: options.compact }).compress().buffer
+          : serde.serialize(value, { compact: options.compact });
+      } catch {}
+      if (errors.length || !payload) {
+        report.failures.push({ subprotocol, kind: 'verify', errors, payload });
+        continue;
+      }
+      
+      for (let i = 0; i < mutations; ++i) {
+        const mutated = mutate(random, payload);
+        try {
+          serde.deserialize(mutated, { compact: options.compact, safe: true });
+        } catch (err: any) {
+          if (err instanceof SerdeDecodeError || err?.constructor === Error) continue;
+          report.failures.push({ subprotocol, kind: 'mutation', errors: [`${err?.name}: ${err?.message}`], payload: mutated });
+        }
+      }
+    }
+  }
+  return report;
+}
+
+/** Records the bytes written & read by each subprotocol in order through a wrapper of a Serde. */
+class Tracer {
+  serde: Serde<any, any>;
+  private written: Span[] = [];
+  private read: Span[] = [];
+  /** Contexts of the traced payload. Nested payloads, e.g. canonical sort keys, are not traced. */
+  private writing?: SerializeContext;
+  private reading?: DeserializeContext;
+  
+  constructor(base: Serde<any, any>) {
+    const tracer = this;
+    this.serde = Object.create(base, {
+      serializeAs: {
+        value(subprotocol: string, value: unknown, writer?: Writer, ctx?: SerializeContext) {
+          if (!writer || !ctx || ctx !== (tracer.writing ??= ctx)) return base.serializeAs.call(this, subprotocol, value, writer, ctx);
+          const span: Span = { subprotocol, offset: writer.tell() };
+          tracer.written.push(span);
+          const result = base.serializeAs.call(this, subprotocol, value, writer, ctx);
+          span.length = writer.tell() - span.offset;
+          return result;
+        },
+      },
+      deserializeAs: {
+        value(subprotocol: string, reader: Reader, ctx: DeserializeContext, version?: number) {
+          if (!(ctx instanceof DeserializeContext) || ctx !== (tracer.reading ??= ctx)) return base.deserializeAs.call(this, subprotocol, reader, ctx, version);
+          const span: Span = { subprotocol, offset: reader.tell() };
+          tracer.read.push(span);
+          const result = base.deserializeAs.call(this, subprotocol, reader, ctx, version);
+          span.length = reader.tell() - span.offset;
+          return result;
+        },
+      },
+    });
+  }
+  
+  /** Compare the spans read with the spans written in order. Only the first mismatch is reported, as all following
+   * reads are out of sync.
+   */
+  compare(): string[] {
+    for (let i = 0; i < this.written.length && i < this.read.length; ++i) {
+      const written = this.written[i], read = this.read[i];
+      if (written.subprotocol !== read.subprotocol)
+        return [`$: Expected to read subprotocol ${written.subprotocol} at offset ${written.offset}, read ${read.subprotocol} at offset ${read.offset}`];
+      if (read.length !== undefined && written.length !== read.length)
+        return [`$: Subprotocol ${written.subprotocol} wrote ${written.length} bytes at offset ${written.offset}, but read ${read.length}`];
+    }
+    return [];
+  }
+}
+
+interface Span {
+  subprotocol: string;
+  offset: number;
+  /** Undefined while in progress or if aborted. */
+  length?: number;
+}
+
+/** Structurally compare `expected` with `actual`. Objects shared within `expected` must be shared alike in `actual`. */
+function compare(expected: unknown, actual: unknown): string[] {
+  const errors: string[] = [];
+  /** Path of each object of `expected` & its counterpart in `actual`. */
+  const seen = new Map<unknown, [path: string, actual: unknown]>();
+  const seenActual = new Map<unknown, string>();
+  
+  const visit = (expected: any, actual: any, path: string): void => {
+    if (actual instanceof Reference)
+      return void errors.push(`${path}: Unresolved Reference #${actual.id} (missing deref?)`);
+    if (!expected || typeof expected !== 'object' || !actual || typeof actual !== 'object') {
+      if (!Object.is(expected, actual))
+        errors.push(`${path}: Expected ${describe(expected)}, got ${describe(actual)}`);
+      return;
+    }
+    
+    if (seen.has(expected)) {
+      const [first, match] = seen.get(expected)!;
+      if (match !== actual)
+        errors.push(`${path}: Expected the same object as ${first} (missing ctx.ref?)`);
+      return;
+    }
+    if (seenActual.has(actual))
+      return void errors.push(`${path}: Unexpectedly the same object as ${seenActual.get(actual)}`);
+    seen.set(expected, [path, actual]);
+    seenActual.set(actual, path);
+    
+    if (Object.getPrototypeOf(expected) !== Object.getPrototypeOf(actual))
+      return void errors.push(`${path}: Expected ${describe(expected)}, got ${describe(actual)}`);
+    
+    if (expected instanceof Date)
+      return void visit(expected.getTime(), actual.getTime(), `${path}.getTime()`);
+    if (expected instanceof RegExp || expected instanceof URL || expected instanceof URLSearchParams)
+      return void visit(expected.toString(), actual.toString(), `${path}.toString()`);
+    if (expected instanceof Number || expected instanceof String || expected instanceof Boolean)
+      return void visit(expected.valueOf(), actual.valueOf(), `${path}.valueOf()`);
+    if (expected instanceof ArrayBuffer)
+      return void visitBytes(new Uint8Array(expected), new Uint8Array(actual), path);
+    if (ArrayBuffer.isView(expected)) {
+      visitBytes(viewBytes(expected), viewBytes(actual), path);
+      // NodeJS Buffers of the same pool are written separately
+      if (!(globalThis as any).Buffer?.isBuffer(expected)) {
+        visit(expected.byteOffset, actual.byteOffset, `${path}.byteOffset`);
+        visit(expected.buffer, actual.buffer, `${path}.buffer`);
+      }
+      return;
+    }
+    if (expected instanceof Map || expected instanceof Set)
+      return void visitCollection(expected, actual, path);
+    if (expected instanceof Error) {
+      visit(expected.name, actual.name, `${path}.name`);
+      visit(expected.message, actual.message, `${path}.message`);
+      if ('cause' in expected) visit((expected as any).cause, actual.cause, `${path}.cause`);
+    }
+    
+    const keys = serializableKeys(expected), actualKeys = serializableKeys(actual);
+    for (const key of actualKeys) {
+      if (!keys.includes(key))
+        errors.push(`${path}: Unexpected property ${key}`);
+    }
+    for (const key of keys) {
+      const child = Array.isArray(expected) && /^\d+$/.test(key) ? `${path}[${key}]` : `${path}.${key}`;
+      if (!actualKeys.includes(key))
+        errors.push(`${child}: Missing`);
+      else
+        visit(expected[key], actual[key], child);
+    }
+  };
+  
+  // Object items & keys are added once their references are resolved, thus the order of Sets & Maps is not preserved.
+  // Primitives are looked up, objects matched by identity if seen before, else in order.
+  const visitCollection = (expected: Map<any, any> | Set<any>, actual: Map<any, any> | Set<any>, path: string) => {
+    visit(expected.size, actual.size, `${path}.size`);
+    const isObject = (key: any) => !!key && typeof key === 'object';
+    const unmatched = [...actual.keys()].filter(key => isObject(key) && !seenActual.has(key));
+    [...expected.keys()].forEach((key, i) => {
+      let match = key, label = `get(${describe(key)})`;
+      if (isObject(key)) {
+        label = expected instanceof Set ? `<item ${i}>` : `<key ${i}>`;
+        match = seen.has(key) ? seen.get(key)![1] : unmatched.shift();
+        if (!actual.has(match))
+          return void errors.push(`${path}.${label}: Missing`);
+        visit(key, match, `${path}.${label}`);
+        label = `<value ${i}>`;
+      }
+      else if (!actual.has(key))
+        return void errors.push(`${path}.${label}: Missing`);
+      if (expected instanceof Map)
+        visit(expected.get(key), (actual as Map<any, any>).get(match), `${path}.${label}`);
+    });
+  };
+  
+  const visitBytes = (expected: Uint8Array, actual: Uint8Array, path: string) => {
+    if (expected.length !== actual.length || expected.some((byte, i) => byte !== actual[i]))
+      errors.push(`${path}: Expected bytes ${hex(expected)}, got ${hex(actual)}`);
+  };
+  
+  visit(expected, actual, '$');
+  return errors;
+}
+
+/** Keys of the properties written by the `object` subprotocol, i.e. excluding functions & symbols. */
+const serializableKeys = (obj: any) => Object.keys(obj).filter(key => typeof obj[key] !== 'function' && typeof obj[key] !== 'symbol');
+const viewBytes = (view: ArrayBufferView) => new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+const hex = (bytes: Uint8Array) => [...bytes.subarray(0, 16)].map(byte => byte.toString(16).padStart(2, '0')).join(' ') + (bytes.length > 16 ? ' …' : '');
+
+function describe(value: unknown) {
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'bigint') return `${value}n`;
+  if (!value || typeof value !== 'object') return Object.is(value, -0) ? '-0' : String(value);
+  return Object.getPrototypeOf(value)?.constructor?.name ?? 'null-prototype object';
+}
+
+/** Apply 1-3 random mutations to a copy of `payload`: flipping, replacing, inserting or removing bytes, or truncating. */
+function mutate(random: Random, payload: Uint8Array) {
+  let bytes = [...payload];
+  for (let count = random.int(1, 3); count; --count) {
+    const index = random.int(0, bytes.length - 1);
+    switch (random.int(0, 4)) {
+      case 0: bytes[index] ^= 1 << random.int(0, 7); break;
+      case 1: bytes[index] = random.pick([0, 0x7F, 0x80, 0xFF, random.int(0, 255)]); break;
+      case 2: bytes.splice(index, 0, random.int(0, 255)); break;
+      case 3: bytes.splice(index, 1); break;
+      case 4: bytes = bytes.slice(0, index); break;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/** Seedable pseudo random generator (mulberry32). */
+export class Random {
+  constructor(private state: number) {}
+  
+  /** Random float in [0, 1). */
+  next() {
+    let t = this.state = (this.state + 0x6D2B79F5) | 0;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+  
+  /** Random integer in [min, max]. */
+  int(min: number, max: number) {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+  
+  chance(probability: number) {
+    return this.next() < probability;
+  }
+  
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+  
+  /** Random string of code points of all planes, excluding lone surrogates which are not representable in UTF-8. */
+  string(maxLength = 16) {
+    return Array.from({ length: this.int(0, maxLength) }, () => {
+      const plane = this.pick([0x7F, 0x7FF, 0xD7FF, 0x10FFFF]);
+      const code = this.int(0, plane);
+      return String.fromCodePoint(code >= 0xD800 && code <= 0xDFFF ? code - 0x800 : code);
+    }).join('');
+  }
+  
+  number() {
+    return this.pick([
+      () => this.int(-1000, 1000),
+      () => this.int(0, Number.MAX_SAFE_INTEGER),
+      () => (this.next() - 0.5) * 2 ** this.int(-64, 64),
+      () => this.pick([NaN, Infinity, -Infinity, -0, Number.MIN_VALUE, Number.MAX_VALUE]),
+    ])();
+  }
+  
+  bigint() {
+    const digits = Array.from({ length: this.int(1, 40) }, () => this.int(0, 9)).join('');
+    return BigInt(digits) * (this.chance(0.5) ? BigInt(-1) : BigInt(1));
+  }
+  
+  bytes(maxLength = 32) {
+    return Uint8Array.from({ length: this.int(0, maxLength) }, () => this.int(0, 255));
+  }
+}
+
+const TYPEDARRAYS = [
+  Int8Array, Uint8Array, Uint8ClampedArray, Int16Array, Uint16Array, Int32Array, Uint32Array,
+  Float32Array, Float64Array, BigInt64Array, BigUint64Array,
+];
+
+const PRIMITIVES = ['boolean', 'number', 'string', 'bigint', 'undef', 'null'];
+const CONTAINERS = ['object', 'array', 'set', 'map'];
+
+/** Random value of a random standard subprotocol. Containers nest up to `depth` levels, and may reference the objects
+ * in `pool` created so far, i.e. share them or form cycles.
+ */
+function randomValue(random: Random, depth = 3, pool: object[] = []): unknown {
+  if (pool.length && random.chance(0.1))
+    return random.pick(pool);
+  const kinds = Object.keys(STANDARD_GENERATORS).filter(kind => depth > 0 || !CONTAINERS.includes(kind));
+  const kind = random.chance(0.5) ? random.pick(PRIMITIVES) : random.pick(kinds);
+  if (!CONTAINERS.includes(kind))
+    return STANDARD_GENERATORS[kind](random);
+  
+  const items = () => Array.from({ length: random.int(0, 4) }, () => randomValue(random, depth - 1, pool));
+  const value: any = kind === 'array' ? [] : kind === 'object' ? {} : kind === 'set' ? new Set() : new Map();
+  pool.push(value);
+  switch (kind) {
+    case 'array': value.push(...items()); break;
+    case 'object': items().forEach((item, i) => { value[random.chance(0.5) ? random.string(4) || `key${i}` : `key${i}`] = item }); break;
+    case 'set': items().forEach(item => value.add(item)); break;
+    case 'map': items().forEach(item => value.set(randomValue(random, 0, pool), item)); break;
+  }
+  return value;
+}
+
+/** Generators of values of the standard subprotocols. */
+const STANDARD_GENERATORS: Record<string, (random: Random) => unknown> = {
+  boolean: random => random.chance(0.5),
+  number: random => random.number(),
+  string: random => random.string(),
+  bigint: random => random.bigint(),
+  undef: () => undefined,
+  null: () => null,
+  regex: random => new RegExp(random.pick(['a+b', '^[a-z]*$', '\\d{2,}', '(?:x|y)\\/']), random.pick(['', 'g', 'gi', 'msu'])),
+  set: random => new Set(Array.from({ length: random.int(0, 4) }, () => randomValue(random, 1))),
+  map: random => new Map(Array.from({ length: random.int(0, 4) }, () => [randomValue(random, 0), randomValue(random, 1)])),
+  date: random => new Date(random.chance(0.1) ? NaN : random.int(-8.64e12, 8.64e12)),
+  error: random => random.pick([Error, TypeError, RangeError])(random.string()),
+  url: random => new URL(`https://example.com/${encodeURIComponent(random.string(8))}`),
+  urlsearchparams: random => new URLSearchParams([[random.string(4), random.string(4)]]),
+  boxed: random => Object(random.pick([random.number(), random.string(), random.chance(0.5)])),
+  buffer: random => (globalThis as any).Buffer?.from(random.bytes()) ?? random.bytes(),
+  arraybuffer: random => random.bytes().buffer,
+  typedarray: random => {
+    const con: any = random.pick(TYPEDARRAYS);
+    const bytes = random.bytes(8 * con.BYTES_PER_ELEMENT);
+    const array = new con(bytes.buffer, 0, Math.floor(bytes.length / con.BYTES_PER_ELEMENT));
+    // views sharing their buffer
+    return random.chance(0.3) ? [array, array.subarray(random.int(0, array.length))] : array;
+  },
+  array: random => Array.from({ length: random.int(0, 4) }, () => randomValue(random, 2)),
+  object: random => {
+    const root: any = randomValue(random, 3);
+    if (random.chance(0.3) && root && Object.getPrototypeOf(root) === Object.prototype)
+      root.self = root;
+    return { root };
+  },
+};
+
+/** Random value of the given schema layout. */
+function fromLayout(random: Random, layout: Layout): any {
+  switch (layout.kind) {
+    case 'bool': return random.chance(0.5);
+    case 'uint8': return random.int(0, 0xFF);
+    case 'uint32': return random.int(0, 0xFFFFFFFF);
+    case 'int32': return random.int(-0x80000000, 0x7FFFFFFF);
+    case 'varint': return random.int(0, Number.MAX_SAFE_INTEGER);
+    case 'float32': return Math.fround(random.number());
+    case 'float64': return random.number();
+    case 'bigint': return random.bigint();
+    case 'string': return random.string();
+    case 'bytes': return random.bytes();
+    case 'optional': return random.chance(0.5) ? fromLayout(random, layout.inner) : undefined;
+    case 'array': return Array.from({ length: random.int(0, 4) }, () => fromLayout(random, layout.items));
+    case 'struct': return Object.fromEntries(layout.fields.map(([name, field]) => [name, fromLayout(random, field)]));
+    default: return randomValue(random, 2);
+  }
+}
@@ -1,31 +1,72 @@
-import { measure } from './perf'
+import * as perf from './perf'
 
 const BI0 = BigInt(0);
 const BI8 = BigInt(8);
 const BI_BYTEMASK = BigInt(0xFF);
 
+/** Tags of the compact number encoding. Tag bytes below `SmallMax` are small non-negative integers themselves. */
+export const CompactNumber = {
+  SmallMax: 0xF0,
+  UInt: 0xF0,
+  NegInt: 0xF1,
+  Float32: 0xF2,
+  Float64: 0xF3,
+} as const;
+
 export interface WriterOptions {
   /** Initial size of the internal buffer. Defaults to 0. */
   size?: number;
   /** Minimum number of bytes by which the internal buffer is grown on-demand. Defaults to 1024. */
   grow?: number;
+  /** Whether to write unsigned integers as varints. See `writeUInt`. Defaults to false. */
+  compact?: boolean;
+  /** Whether to write NaN as the quiet NaN rather than with its payload. See `writeNumber`. Defaults to false. */
+  canonical?: boolean;
+  /** Write into the given memory, e.g. of a `SharedArrayBuffer`, rather than an internal buffer. The target is never
+   * grown, writing beyond its end throws.
+   */
+  target?: Uint8Array;
+}
+
+export interface WriterPoolOptions {
+  /** Maximum number of idle Writers kept for reuse. Defaults to 16. */
+  size?: number;
+  /** Writers whose buffer grew beyond this many bytes are discarded rather than kept. Defaults to 1 MiB. */
+  maxBufferSize?: number;
 }
 
 /** The Writer helps writing serial data to a binary buffer, advancing
  * a cursor as it does.
  */
 export default class Writer {
-  buffer: Uint8Array;
+  private _buffer!: Uint8Array;
+  /** DataView of `buffer`, cached as creating one per write is costly. */
+  private view!: DataView;
   /** Number of actually written bytes. May diverge from `buffer.length` */
   size = 0;
   /** Position at which to write binary data. */
   cursor = 0;
   /** The minimum number of bytes by which the buffer is grown on demand. */
   grow: number;
+  /** Whether to write unsigned integers as varints. See `writeUInt`. */
+  compact: boolean;
+  /** Whether to write NaN as the quiet NaN rather than with its payload. See `writeNumber`. */
+  canonical: boolean;
+  /** Whether this Writer writes into fixed memory given as `WriterOptions.target`, which cannot grow. */
+  readonly fixed: boolean;
   
-  constructor({ size = 0, grow = 1024 }: WriterOptions = {}) {
-    this.buffer = new Uint8Array(size);
+  constructor({ size = 0, grow = 1024, compact = false, canonical = false, target }: WriterOptions = {}) {
+    this.buffer = target ?? new Uint8Array(size);
     this.grow = grow;
+    this.compact = compact;
+    this.canonical = canonical;
+    this.fixed = !!target;
+  }
+  
+  get buffer() { return this._buffer }
+  set buffer(buffer: Uint8Array) {
+    this._buffer = buffer;
+    this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
   }
   
   writeBytes(bytes: Uint8Array) {
@@ -56,17 +97,75 @@ export default class Writer {
   
   writeUInt32(num: number) {
     this.fit(4);
-    new DataView(this.buffer.buffer).setUint32(this.cursor, num, true);
-    this.advance(4);
+    this.view.setUint32(this.advance(4), num, true);
     return this;
   }
   
+  /** Write a float32. If this Writer is `canonical`, NaN is written as the quiet NaN, as its payload is otherwise
+   * preserved.
+   */
+  writeFloat32(num: number) {
+    this.fit(4);
+    if (num !== num && this.canonical)
+      this.view.setUint32(this.advance(4), 0x7FC00000, true);
+    else
+      this.view.setFloat32(this.advance(4), num, true);
+    return this;
+  }
+  
+  /** Write a float64. If this Writer is `canonical`, NaN is written as the quiet NaN, as its payload is otherwise
+   * preserved.
+   */
   writeNumber(num: number) {
     this.fit(8);
-    new DataView(this.buffer.buffer).setFloat64(this.advance(8), num, true);
+    const cursor = this.advance(8);
+    if (num !== num && this.canonical) {
+      this.view.setUint32(cursor, 0, true);
+      this.view.setUint32(cursor + 4, 0x7FF80000, true);
+    }
+    else {
+      this.view.setFloat64(cursor, num, true);
+    }
+    return this;
+  }
+  
+  /** Write an unsigned integer as LEB128 varint, i.e. 7 bits per byte with the MSB flagging continuation. */
+  writeVarint(num: number) {
+    if (!Number.isSafeInteger(num) || num < 0)
+      throw new Error(`Invalid varint: ${num}`);
+    
+    do {
+      let byte = num % 0x80;
+      num = Math.floor(num / 0x80);
+      if (num) byte |= 0x80;
+      this.writeByte(byte);
+    } while (num);
     return this;
   }
   
+  /** Write an unsigned integer such as a length, count or ID: a varint if this Writer is compact, else a UInt32. */
+  writeUInt(num: number) {
+    return this.compact ? this.writeVarint(num) : this.writeUInt32(num);
+  }
+  
+  /** Write a number in the compact number encoding: a single byte for small integers, a varint for other safe
+   * integers, or a float32/float64 for all other numbers depending on which represents it exactly. NaN is written as
+   * a float64 to preserve its payload, unless this Writer is `canonical`.
+   */
+  writeCompactNumber(num: number) {
+    if (Number.isSafeInteger(num) && !Object.is(num, -0)) {
+      if (num >= 0 && num < CompactNumber.SmallMax)
+        return this.writeByte(num);
+      if (num >= 0)
+        return this.writeByte(CompactNumber.UInt).writeVarint(num);
+      return this.writeByte(CompactNumber.NegInt).writeVarint(-num);
+    }
+    
+    if (num !== num ? this.canonical : Object.is(Math.fround(num), num))
+      return this.writeByte(CompactNumber.Float32).writeFloat32(num);
+    return this.writeByte(CompactNumber.Float64).writeNumber(num);
+  }
+  
   writeBigint(bi: bigint) {
     const neg = bi < BI0;
     bi = bigAbs(bi);
@@ -86,25 +185,32 @@ export default class Writer {
     return this;
   }
   
-  /** Ensure this Writer's buffer can accommodate an additional `size` bytes. If not, grow. */
+  /** Ensure this Writer's buffer can accommodate an additional `size` bytes. If not, grow at least by `grow` bytes &
+   * at most double, such that the number of copies is logarithmic in the final size.
+   */
   fit(size: number) {
     if (this.cursor + size > this.buffer.length) {
-      this.resize(this.cursor + Math.max(this.grow, size, Math.floor(this.buffer.length / 10)));
+      if (this.fixed)
+        throw new Error(`Target of ${this.buffer.length} bytes is too small, at least ${this.cursor + size} bytes are required`);
+      this.resize(this.cursor + Math.max(this.grow, size, this.buffer.length));
     }
     return this;
   }
   
   resize(newSize: number) {
-    measure('Writer.resize', () => {
-      if (this.size < newSize) {
-        const buffer = this.buffer;
-        this.buffer = new Uint8Array(newSize);
-        this.buffer.set(buffer);
-      }
-      else {
-        this.buffer = this.buffer.slice(0, newSize);
-      }
-    });
+    if (this.fixed)
+      throw new Error('Cannot resize the fixed target of a Writer');
+    const start = perf.enabled ? perf.now() : 0;
+    const oldLength = this.buffer.length;
+    if (this.size < newSize) {
+      const buffer = this.buffer;
+      this.buffer = new Uint8Array(newSize);
+      this.buffer.set(buffer);
+    }
+    else {
+      this.buffer = this.buffer.slice(0, newSize);
+    }
+    if (perf.enabled) perf.record('Writer.resize', start, this.buffer.length - oldLength);
     return this;
   }
   
@@ -122,6 +228,18 @@ export default class Writer {
     return this;
   }
   
+  /** Write the number of padding bytes followed by as many zero bytes, such that the cursor ends up at a multiple of
+   * `alignment`. Alignment is relative to the start of this Writer's buffer. See `Reader.align`.
+   */
+  align(alignment: number) {
+    const padding = (alignment - (this.cursor + 1) % alignment) % alignment;
+    this.writeByte(padding);
+    this.reserve(padding);
+    this.buffer.fill(0, this.cursor, this.cursor + padding);
+    this.advance(padding);
+    return this;
+  }
+  
   /** Advances the internal cursor by n bytes and returns its former value. */
   protected advance(n: number): number {
     const old = this.cursor;
@@ -134,6 +252,25 @@ export default class Writer {
     return this.resize(this.size);
   }
   
+  /** Discard all data written beyond `size` & move the cursor there. */
+  truncate(size: number) {
+    this.size = Math.min(this.size, size);
+    this.cursor = this.size;
+    return this;
+  }
+  
+  /** Discard all written data while keeping the internal buffer for reuse. */
+  reset() {
+    this.cursor = 0;
+    this.size = 0;
+    return this;
+  }
+  
+  /** Copy of the written bytes. Unlike `compress` keeps the internal buffer for reuse. */
+  bytes() {
+    return this.buffer.slice(0, this.size);
+  }
+  
   seek(offset: number) {
     this.cursor = Math.max(0, Math.min(offset, this.size));
     return this;
@@ -142,6 +279,35 @@ export default class Writer {
   tell() { return this.cursor }
 }
 
+/** Pool of reusable Writers, which keep their grown buffers across payloads. `Serde.serialize` acquires its Writers
+ * from `Serde.writerPool`.
+ */
+export class WriterPool {
+  private idle: Writer[] = [];
+  size: number;
+  maxBufferSize: number;
+  
+  constructor({ size = 16, maxBufferSize = 1 << 20 }: WriterPoolOptions = {}) {
+    this.size = size;
+    this.maxBufferSize = maxBufferSize;
+  }
+  
+  /** Acquire an empty, non-compact & non-canonical Writer. */
+  acquire() {
+    const writer = this.idle.pop() ?? new Writer();
+    writer.reset();
+    writer.compact = false;
+    writer.canonical = false;
+    return writer;
+  }
+  
+  /** Return a Writer to the pool. It must not be used afterwards, nor views into its buffer. */
+  release(writer: Writer) {
+    if (writer.fixed || writer.buffer.length > this.maxBufferSize || this.idle.length >= this.size) return;
+    if (!this.idle.includes(writer)) this.idle.push(writer);
+  }
+}
+
 function bigSizeOf(bi: bigint) {
   bi = bigAbs(bi);
   let n = 0;
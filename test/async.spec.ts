@@ -0,0 +1,73 @@
+import { expect } from 'chai'
+import { PassThrough } from 'stream'
+import { SerdeAlter } from '../src/protocol'
+import { SERDE } from '../src/types'
+
+class Asset {
+  [SERDE] = 'test::asset' as const;
+  constructor(public data: Uint8Array, public meta: any = {}) {}
+}
+
+const digest = async (data: Uint8Array) => new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+
+describe('async serde', () => {
+  const serde = SerdeAlter().standard()
+    .setAsync('test::asset',
+      async (ctx, writer, value: Asset) => {
+        writer.writeBytes(await digest(value.data));
+        writer.writeUInt(value.data.length);
+        writer.writeBytes(value.data);
+        await ctx.serde.serializeAsync(ctx.ref(value.meta), writer, ctx);
+      },
+      async (ctx, reader) => {
+        const hash = reader.readBytes(32);
+        const data = reader.readBytes(reader.readUInt());
+        if ((await digest(data)).some((byte, i) => byte !== hash[i]))
+          throw new Error('Asset digest mismatch');
+        
+        const asset = new Asset(data);
+        ctx.deref(await ctx.serde.deserializeAsync(reader, ctx), meta => { asset.meta = meta });
+        return asset;
+      },
+    );
+  
+  it('round trip', async () => {
+    const shared = { name: 'shared' };
+    const ref = [new Asset(new Uint8Array([1, 2, 3]), shared), new Asset(new Uint8Array([4]), shared)];
+    const value = await serde.deserializeAsync(await serde.serializeAsync(ref));
+    expect(value).to.deep.equal(ref);
+    expect(value[0]).to.be.instanceOf(Asset);
+    expect(value[0].meta).to.equal(value[1].meta);
+  });
+  
+  it('verifies', async () => {
+    const bytes = await serde.serializeAsync(new Asset(new Uint8Array([0xAA, 0xBB, 0xCC])));
+    bytes[bytes.lastIndexOf(0xCC)] = 0;
+    try {
+      await serde.deserializeAsync(bytes);
+      expect.fail('expected digest mismatch');
+    } catch (err) {
+      expect((err as Error).message).to.equal('Asset digest mismatch');
+    }
+  });
+  
+  it('sync subprotocols', async () => {
+    const ref = { foo: 'bar', list: [1, 2, 3], map: new Map([[1, new Set(['a'])]]) };
+    const bytes = await serde.serializeAsync(ref, { compact: true, header: true });
+    expect(bytes).to.deep.equal(serde.serialize(ref, { compact: true, header: true }));
+    expect(await serde.deserializeAsync(bytes)).to.deep.equal(ref);
+  });
+  
+  it('rejects sync methods', () => {
+    const asset = new Asset(new Uint8Array([1]));
+    expect(() => serde.serialize(asset)).to.throw('Subprotocol test::asset is async, use serializeAsync instead');
+  });
+  
+  it('streams', async () => {
+    const ref = { asset: new Asset(new Uint8Array([1, 2, 3]), { foo: 42 }) };
+    const stream = new PassThrough();
+    await serde.serializeStream(ref, stream);
+    stream.end();
+    expect(await serde.deserializeStream(stream)).to.deep.equal(ref);
+  });
+});
@@ -0,0 +1,63 @@
+import { expect } from 'chai'
+import { crc32, lzCompress, lzDecompress } from '../src/codec'
+import { SerdeDecodeError } from '../src/errors'
+import Serde from '../src/protocol'
+
+const standard = Serde().standard();
+const encode = (value: string) => new TextEncoder().encode(value);
+
+describe('codec', () => {
+  const ref = {
+    text: 'lorem ipsum dolor sit amet '.repeat(20),
+    list: new Array(100).fill(0).map((_, i) => ({ id: i, name: `item ${i}` })),
+  };
+  
+  it('crc32', () => {
+    expect(crc32(encode('123456789'))).to.equal(0xCBF43926);
+    expect(crc32(new Uint8Array(0))).to.equal(0);
+  });
+  
+  it('lz', () => {
+    const random = new Uint8Array(1000).map(() => Math.random() * 256);
+    for (const bytes of [new Uint8Array(0), encode('abc'), encode('abcabcabcabcabcabc'), random, standard.serialize(ref)]) {
+      expect(lzDecompress(lzCompress(bytes))).to.deep.equal(bytes);
+    }
+    
+    const bytes = encode('a'.repeat(1000));
+    expect(lzCompress(bytes).length).to.be.lessThan(30);
+    expect(() => lzDecompress(lzCompress(bytes), 999)).to.throw(SerdeDecodeError, 'exceeds maxBytes of 999');
+  });
+  
+  for (const compression of ['deflate', 'gzip', 'lz'] as const) {
+    it(compression, async () => {
+      const bytes = standard.serialize(ref, { compression });
+      expect(bytes.length).to.be.lessThan(standard.serialize(ref).length / 2);
+      expect(standard.deserialize(bytes)).to.deep.equal(ref);
+      
+      const asyncBytes = await standard.serializeAsync(ref, { compression, compact: true });
+      expect(await standard.deserializeAsync(asyncBytes)).to.deep.equal(ref);
+    });
+  }
+  
+  it('decompression limits', () => {
+    const bytes = standard.serialize('a'.repeat(100000), { compression: 'deflate' });
+    expect(bytes.length).to.be.lessThan(1000);
+    expect(() => standard.deserialize(bytes, { safe: { maxBytes: 10000 } })).to.throw(SerdeDecodeError);
+  });
+  
+  it('checksum', () => {
+    const bytes = standard.serialize(ref, { checksum: 'crc32', compression: 'lz' });
+    expect(standard.deserialize(bytes, { checksum: true })).to.deep.equal(ref);
+    
+    for (const offset of [8, bytes.length >> 1, bytes.length - 1]) {
+      const corrupt = bytes.slice();
+      corrupt[offset] ^= 0x01;
+      expect(() => standard.deserialize(corrupt), `offset ${offset}`).to.throw(SerdeDecodeError, 'Checksum mismatch');
+    }
+    expect(() => standard.deserialize(bytes.slice(0, 7))).to.throw(SerdeDecodeError);
+  });
+  
+  it('requires checksum', () => {
+    expect(() => standard.deserialize(standard.serialize(ref), { checksum: true })).to.throw('Payload has no checksum');
+  });
+});
@@ -0,0 +1,127 @@
+import { expect } from 'chai'
+import { field, serializable, transient } from '../src/decorators'
+import Serde, { SerdeAlter } from '../src/protocol'
+import { SERDE, SUBSERDE } from '../src/types'
+
+@serializable('test::decorated-user')
+class User {
+  @transient()
+  session?: string;
+  
+  constructor(public name: string, public friends: User[] = []) {}
+  
+  greet = () => `Hello, ${this.name}`;
+}
+
+@serializable('test::decorated-point')
+class Point {
+  @field() x = 0;
+  @field() y = 0;
+  cache: Record<string, number> = {};
+}
+
+@serializable('test::decorated-point3')
+class Point3 extends Point {
+  @field() z = 0;
+}
+
+abstract class Shape {
+  abstract area(): number;
+}
+
+@serializable('test::decorated-shape', { variant: 'circle' })
+class Circle extends Shape {
+  constructor(public radius = 0) { super() }
+  area() { return Math.PI * this.radius ** 2 }
+}
+
+@serializable('test::decorated-shape', { variant: 'square' })
+class Square extends Shape {
+  constructor(public size = 0) { super() }
+  area() { return this.size ** 2 }
+}
+
+let created = 0;
+
+@serializable('test::decorated-factory', { factory: () => new Counter(++created) })
+class Counter {
+  count = 0;
+  @transient() readonly instance: number;
+  
+  constructor(instance: number) {
+    this.instance = instance;
+  }
+}
+
+describe('decorators', () => {
+  const serde = Serde().standard().setDecorated();
+  
+  it('injects SERDE', () => {
+    expect(new User('foo')[SERDE as any]).to.equal('test::decorated-user');
+    expect(Object.keys(new User('foo'))).to.not.include(SERDE as any);
+  });
+  
+  it('transient', () => {
+    const ref = new User('foo');
+    ref.session = 'secret';
+    const value = serde.deserialize(serde.serialize(ref));
+    expect(value).to.be.instanceOf(User);
+    expect(value.name).to.equal('foo');
+    expect(value.session).to.be.undefined;
+  });
+  
+  it('references', () => {
+    const alice = new User('alice');
+    const bob = new User('bob', [alice]);
+    alice.friends.push(bob);
+    
+    const value = serde.deserialize(serde.serialize([alice, bob]));
+    expect(value[0]).to.be.instanceOf(User);
+    expect(value[0].friends[0]).to.equal(value[1]);
+    expect(value[1].friends[0]).to.equal(value[0]);
+  });
+  
+  it('restores __proto__ as own property', () => {
+    const ref = new User('foo');
+    Object.defineProperty(ref, '__proto__', { value: { polluted: true }, writable: true, enumerable: true, configurable: true });
+    const value = serde.deserialize(serde.serialize(ref));
+    expect(Object.getPrototypeOf(value)).to.equal(User.prototype);
+    expect(value).to.be.instanceOf(User);
+    expect(Object.getOwnPropertyDescriptor(value, '__proto__')!.value).to.deep.equal({ polluted: true });
+  });
+  
+  it('fields', () => {
+    const ref = Object.assign(new Point3(), { x: 1, y: 2, z: 3, cache: { foo: 42 } });
+    const value = serde.deserialize(serde.serialize(ref));
+    expect(value).to.be.instanceOf(Point3);
+    expect({ ...value }).to.deep.equal({ x: 1, y: 2, z: 3 });
+  });
+  
+  it('factory', () => {
+    const ref = new Counter(0);
+    ref.count = 42;
+    const value = serde.deserialize(serde.serialize(ref));
+    expect(value).to.be.instanceOf(Counter);
+    expect(value.count).to.equal(42);
+    expect(value.instance).to.equal(created);
+  });
+  
+  it('variants', () => {
+    expect(new Circle()[SUBSERDE as any]).to.equal('circle');
+    const ref: Shape[] = [new Circle(1), new Square(2)];
+    const value = serde.deserialize(serde.serialize(ref));
+    expect(value[0]).to.be.instanceOf(Circle);
+    expect(value[1]).to.be.instanceOf(Square);
+    expect(value[1].area()).to.equal(4);
+  });
+  
+  it('selected classes', () => {
+    const serde = SerdeAlter().standard().setDecorated(Point);
+    const value = serde.deserialize(serde.serialize(Object.assign(new Point(), { x: 1, y: 2 })));
+    expect(value).to.be.instanceOf(Point);
+    expect(() => serde.serialize(new User('foo'))).to.throw('No such subprotocol: test::decorated-user');
+    
+    class Undecorated {}
+    expect(() => SerdeAlter().setDecorated(Undecorated)).to.throw('Class Undecorated is not decorated with @serializable');
+  });
+});
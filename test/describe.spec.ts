@@ -0,0 +1,113 @@
+import { expect } from 'chai'
+import ts from 'typescript'
+import { inflateSync } from 'zlib'
+import { FORMAT_VERSION } from '../src/header'
+import { SerdeAlter } from '../src/protocol'
+import { s } from '../src/schema'
+import { SERDE, SUBSERDE } from '../src/types'
+import { hash } from '../src/util'
+
+class Point {
+  [SERDE] = 'test::point' as const;
+  constructor(public x: number, public y: number) {}
+}
+
+class Tag {
+  [SERDE] = 'test::tag' as const;
+  constructor(public name: string) {}
+}
+
+class Opaque {
+  [SERDE] = 'test::opaque' as const;
+}
+
+describe('describe serde', () => {
+  const serde = SerdeAlter().standard()
+    .setSchema('test::point', s.struct({ x: s.float64(), y: s.float64() }, () => Object.create(Point.prototype)))
+    .setSimple('test::tag', (value: Tag) => ({ name: value.name }), data => new Tag(data.name), { version: 1 })
+    .set('test::opaque', () => {}, () => new Opaque())
+    .setVariant('test::shape', 'circle', (ctx, writer, value: any) => writer.writeNumber(value.radius), (ctx, reader) => ({ radius: reader.readNumber() }));
+
+  /** Compile & load the generated decoder. */
+  const load = () => {
+    const { outputText } = ts.transpileModule(serde.generateDecoder(), { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 } });
+    const module = { exports: {} as any };
+    new Function('module', 'exports', outputText)(module, module.exports);
+    return module.exports.decode as (bytes: Uint8Array, options?: any) => any;
+  };
+
+  it('describes subprotocols', () => {
+    const { format, subprotocols } = serde.describe();
+    expect(format.version).to.equal(FORMAT_VERSION);
+    expect(format.magic).to.equal('SRDE');
+    expect(format.flags[0]).to.equal('stream');
+    expect(subprotocols.map(({ id }) => id)).to.deep.equal(serde.registry().map(({ id }) => id));
+
+    const byName = Object.fromEntries(subprotocols.map(sub => [sub.name, sub]));
+    expect(byName.string).to.deep.include({ hash: hash('string'), layout: { kind: 'standard' } });
+    expect(byName['test::point'].layout).to.deep.equal({ kind: 'struct', fields: [['x', { kind: 'float64' }], ['y', { kind: 'float64' }]] });
+    expect(byName['test::tag']).to.deep.include({ version: 1, layout: { kind: 'any' } });
+    expect(byName['test::opaque'].layout).to.be.undefined;
+    expect(byName['test::shape'].layout).to.deep.equal({ kind: 'variant', variants: [{ name: 'circle', hash: hash('circle'), layout: undefined }] });
+    expect(JSON.parse(JSON.stringify(serde.describe())).subprotocols).to.have.length(subprotocols.length);
+  });
+
+  it('generated decoder', () => {
+    const decode = load();
+    const shared = new Float64Array([1, 2, 3, 4]);
+    const ref: any = {
+      str: 'ünïcödé',
+      nums: [0, -1.5, 2**40, NaN],
+      big: -123456789012345678901234567890n,
+      date: new Date(1234),
+      regex: /a\/b/gi,
+      set: new Set([1, 'two']),
+      map: new Map<any, any>([['a', { b: 1 }]]),
+      error: new TypeError('failed'),
+      url: new URL('https://example.com/?a=1'),
+      boxed: Object('text'),
+      bytes: new Uint8Array([1, 2, 3]),
+      views: [shared, shared.subarray(2)],
+      buffer: new Uint8Array([4, 5]).buffer,
+      nothing: [null, undefined, true],
+    };
+    ref.self = ref;
+
+    for (const options of [{}, { compact: true, header: true }, { checksum: 'crc32' as const }, { index: true }]) {
+      const value = decode(serde.serialize(ref, options));
+      expect(value).to.deep.equal(serde.deserialize(serde.serialize(ref, options)));
+      expect(value.self).to.equal(value);
+      expect(value.views[1].buffer).to.equal(value.views[0].buffer);
+    }
+    expect(decode(serde.serialize(ref, { compact: true }), { compact: true })).to.deep.equal(serde.deserialize(serde.serialize(ref)));
+
+    const sparse: any = [1, , 3];
+    sparse.label = 'props';
+    const frozen: any = Object.freeze({ sparse, bare: Object.assign(Object.create(null), { __proto__: 'own' }) });
+    sparse.push(frozen);
+    const objects = decode(serde.serialize(frozen));
+    expect(objects).to.deep.equal(serde.deserialize(serde.serialize(frozen)));
+    expect(Object.keys(objects.sparse)).to.deep.equal(['0', '2', '3', 'label']);
+    expect(Object.getPrototypeOf(objects.bare)).to.be.null;
+    const own = decode(serde.serialize(JSON.parse('{"__proto__": {"polluted": true}}')));
+    expect(Object.getPrototypeOf(own)).to.equal(Object.prototype);
+    expect(Object.keys(own)).to.deep.equal(['__proto__']);
+    expect(Object.isFrozen(objects) && objects.sparse[3] === objects).to.be.true;
+
+    const compressed = serde.serialize(ref, { compression: 'deflate' });
+    expect(() => decode(compressed)).to.throw('Payload is compressed with deflate, which requires DecodeOptions.decompress');
+    expect(decode(compressed, { decompress: (_: string, bytes: Uint8Array) => inflateSync(bytes) })).to.deep.equal(serde.deserialize(compressed));
+  });
+
+  it('custom subprotocols', () => {
+    const decode = load();
+    const value = decode(serde.serialize({ point: new Point(1, 2), tags: [new Tag('a')] }));
+    expect(value).to.deep.equal({ point: { x: 1, y: 2 }, tags: [{ name: 'a' }] });
+
+    expect(() => decode(serde.serialize(new Opaque()))).to.throw('Subprotocol test::opaque has a custom layout which cannot be decoded');
+    expect(() => decode(serde.serialize({ [SERDE]: 'test::shape', [SUBSERDE]: 'circle', radius: 1 } as any)))
+      .to.throw('Subprotocol test::shape/circle has a custom layout which cannot be decoded');
+    expect(() => decode(SerdeAlter().standard().set('test::other', () => {}, () => 1).serializeAs('test::other', 1).compress().buffer))
+      .to.throw('Unknown subprotocol ID');
+  });
+});
@@ -0,0 +1,124 @@
+import { expect } from 'chai'
+import { SerdeAlter } from '../src/protocol'
+
+describe('diff serde', () => {
+  const serde = SerdeAlter().standard();
+  const copy = (value: any) => serde.deserialize(serde.serialize(value));
+
+  it('patches in place', () => {
+    const prev = { users: [{ name: 'alice' }, { name: 'bob' }], meta: { count: 2, stale: true } };
+    const next = { users: [{ name: 'alice' }, { name: 'carol' }, { name: 'dave' }], meta: { count: 3 } };
+    const remote = copy(prev);
+    const { users, meta } = remote;
+    const [alice, bob] = users;
+
+    const patched = serde.patch(remote, serde.diff(prev, next));
+    expect(patched).to.equal(remote);
+    expect(patched).to.deep.equal(next);
+    expect(patched.users).to.equal(users);
+    expect(patched.users[0]).to.equal(alice);
+    expect(patched.users[1]).to.equal(bob);
+    expect(patched.meta).to.equal(meta);
+  });
+
+  it('maps, sets & shared objects', () => {
+    const shared = { id: 1 };
+    const prev = { shared, map: new Map<any, any>([['a', 1], [shared, 'shared'], ['gone', true]]), set: new Set<any>([1, shared]) };
+    // immutable update which keeps `shared`
+    const next = { shared, map: new Map<any, any>([['a', 2], [shared, 'still'], ['new', { ref: shared }]]), set: new Set<any>([shared, 2]) };
+    const remote = copy(prev);
+
+    const patched = serde.patch(remote, serde.diff(prev, next));
+    expect(patched).to.deep.equal(next);
+    expect(patched.map.get(remote.shared)).to.equal('still');
+    expect(patched.map.get('new').ref).to.equal(remote.shared);
+    expect(patched.set.has(remote.shared)).to.be.true;
+  });
+
+  it('sparse arrays', () => {
+    const prev = { list: [1, 2, 3, , 5] };
+    const next = { list: [1, , 3, undefined, , 6] };
+    const remote = copy(prev);
+    const { list } = remote;
+
+    const patched = serde.patch(remote, serde.diff(prev, next));
+    expect(patched.list).to.equal(list);
+    expect(patched.list).to.have.length(6);
+    expect(Object.keys(patched.list)).to.deep.equal(['0', '2', '3', '5']);
+    expect(patched.list).to.deep.equal(next.list);
+  });
+
+  it('array properties', () => {
+    const prev: any = Object.assign([1, 2], { tag: 'a', gone: true });
+    const next: any = Object.assign([1, 2], { tag: 'b', added: { id: 1 } });
+    const remote = copy(prev);
+
+    const patched = serde.patch(remote, serde.diff(prev, next));
+    expect(patched).to.equal(remote);
+    expect(Object.keys(patched)).to.deep.equal(['0', '1', 'tag', 'added']);
+    expect(patched).to.deep.equal(next);
+  });
+
+  it('__proto__ keys', () => {
+    const prev: any = { a: 1 };
+    const next: any = JSON.parse('{"a": 1, "__proto__": {"polluted": true}}');
+    const remote = copy(prev);
+
+    const patched = serde.patch(remote, serde.diff(prev, next));
+    expect(Object.getPrototypeOf(patched)).to.equal(Object.prototype);
+    expect(Object.keys(patched)).to.deep.equal(['a', '__proto__']);
+    expect(patched['__proto__']).to.deep.equal({ polluted: true });
+
+    const removed = serde.patch(patched, serde.diff(next, prev));
+    expect(Object.keys(removed)).to.deep.equal(['a']);
+  });
+
+  it('frozen objects', () => {
+    const prev = { config: Object.freeze({ mode: 'a' }), list: Object.seal([1]) };
+    const next = { config: Object.freeze({ mode: 'b' }), list: Object.seal([2]) };
+    const remote = copy(prev);
+    const { config } = remote;
+
+    const patched = serde.patch(remote, serde.diff(prev, next));
+    expect(patched).to.deep.equal(next);
+    expect(patched.config).to.not.equal(config);
+    expect(Object.isFrozen(patched.config)).to.be.true;
+    expect(Object.isSealed(patched.list)).to.be.true;
+  });
+
+  it('cycles', () => {
+    const prev: any = { name: 'root', children: [] };
+    prev.children.push({ parent: prev, name: 'first' });
+    const next: any = { name: 'root', children: [] };
+    next.children.push({ parent: next, name: 'first' }, { parent: next, name: 'second' });
+    next.self = next;
+    const remote = copy(prev);
+    const first = remote.children[0];
+
+    const patched = serde.patch(remote, serde.diff(prev, next));
+    expect(patched.self).to.equal(remote);
+    expect(patched.children[0]).to.equal(first);
+    expect(patched.children[1].parent).to.equal(remote);
+    expect(patched.children.map((child: any) => child.name)).to.deep.equal(['first', 'second']);
+  });
+
+  it('replaces the root', () => {
+    expect(serde.patch(copy([1, 2]), serde.diff([1, 2], { a: 1 }))).to.deep.equal({ a: 1 });
+    expect(serde.patch(42, serde.diff(42, 'text'))).to.equal('text');
+  });
+
+  it('is compact', () => {
+    const prev = { items: Array.from({ length: 1000 }, (_, i) => ({ id: i, label: `item ${i}` })) };
+    const next = { items: prev.items.map(item => item.id === 500 ? { ...item, label: 'changed' } : item) };
+    const patch = serde.diff(prev, next);
+    expect(patch.length).to.be.lessThan(64);
+    expect(serde.patch(copy(prev), patch)).to.deep.equal(next);
+    expect(serde.diff(prev, prev).length).to.equal(12);
+  });
+
+  it('rejects mismatching values', () => {
+    const patch = serde.diff({ a: { b: 1 } }, { a: { b: 2 } });
+    expect(() => serde.patch({ a: 1 }, patch)).to.throw('Patch was computed from a value with 2 references, but the given value has 1');
+    expect(() => serde.patch({ a: new Set() }, patch)).to.throw('Target #1 of patch op set is not of type object or array');
+  });
+});
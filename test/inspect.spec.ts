@@ -0,0 +1,108 @@
+import { expect } from 'chai'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { PassThrough } from 'stream'
+import { main } from '../src/dump'
+import { formatInspection, inspect } from '../src/inspect'
+import Serde, { SerdeAlter } from '../src/protocol'
+import { SERDE } from '../src/types'
+
+const standard = Serde().standard();
+
+describe('inspect', () => {
+  it('tree', () => {
+    const shared = { a: 1 };
+    const bytes = standard.serialize({ foo: 'bar', list: [shared, shared] });
+    const { count, records, errors } = inspect(bytes, standard);
+    expect(errors).to.be.empty;
+    expect(count).to.equal(3);
+    expect(records.map(record => record.label)).to.deep.equal(['#0', '#1', '#2']);
+    
+    const [root] = records[0].children;
+    expect(root).to.deep.include({ label: 'object', subprotocol: 'object', start: 9 });
+    expect(root.children.map(child => child.label)).to.deep.equal(['string', 'string', 'string', 'reference']);
+    expect(root.children[1].value).to.equal('bar');
+    expect(records[records.length - 1].end).to.equal(bytes.length);
+    
+    const text = formatInspection(inspect(bytes, standard));
+    expect(text).to.include('references  3');
+    expect(text).to.include('0009..0034    object  {foo, list}');
+    expect(text).to.include('string  "bar"');
+  });
+  
+  it('unknown subprotocols', () => {
+    class Foo {
+      [SERDE] = 'test::inspect-foo';
+      constructor(public value: number) {}
+    }
+    const serde = SerdeAlter().standard()
+      .setSimple('test::inspect-foo', ({ value }: Foo) => ({ value }), ({ value }) => new Foo(value));
+    const bytes = serde.serialize({ foo: new Foo(42) });
+    
+    const { records, errors } = inspect(bytes, standard);
+    const failed = records[1].children[0];
+    expect(failed.label).to.equal('<unknown>');
+    expect(failed.error).to.include('Failed subprotocol hash lookup');
+    expect(failed.raw).to.deep.equal(bytes.slice(failed.start, failed.start + 32));
+    expect(errors).to.deep.equal(['Failed to decode record #1']);
+    expect(formatInspection(inspect(bytes, standard))).to.include('raw ');
+    
+    expect(inspect(bytes, serde).errors).to.be.empty;
+  });
+  
+  it('dangling references', () => {
+    const bytes = standard.serialize([{}]);
+    bytes.set([7, 0, 0, 0], 22);
+    expect(inspect(bytes, standard).errors).to.deep.equal(['Reference ID not found: 7']);
+  });
+  
+  it('stream layout', async () => {
+    const stream = new PassThrough();
+    const chunks: Buffer[] = [];
+    stream.on('data', chunk => chunks.push(chunk));
+    await standard.serializeStream({ foo: [1, 2], bar: 'baz' }, stream, { header: true });
+    const bytes = new Uint8Array(Buffer.concat(chunks));
+    
+    const { header, records, errors } = inspect(bytes, standard);
+    expect(header?.flags.stream).to.be.true;
+    expect(records.length).to.equal(2);
+    expect(errors).to.be.empty;
+    
+    // frames delimit records, so inspection resumes after a corrupt record
+    bytes.set([0xFF, 0xFF, 0xFF, 0xFF], 15);
+    const corrupt = inspect(bytes, standard);
+    expect(corrupt.records.length).to.equal(2);
+    expect(corrupt.errors).to.deep.equal(['Failed to decode record #0']);
+  });
+  
+  it('compressed', () => {
+    const bytes = standard.serialize(['foo', 'bar'], { compression: 'lz', checksum: 'crc32', compact: true });
+    const { header, records, errors } = inspect(bytes, standard);
+    expect(header).to.deep.include({ codec: 'lz', checksum: 'crc32' });
+    expect(records[0].children[0].children.map(child => child.value)).to.deep.equal(['foo', 'bar']);
+    expect(errors).to.be.empty;
+    
+    bytes[bytes.length - 1] ^= 0xFF;
+    expect(inspect(bytes, standard).errors).to.deep.equal(['Checksum mismatch']);
+  });
+  
+  it('serde-dump', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'serde-dump-'));
+    const log = console.log;
+    const lines: string[] = [];
+    console.log = (line: string) => { lines.push(line) };
+    try {
+      writeFileSync(join(dir, 'payload.bin'), standard.serialize({ foo: 'bar' }));
+      expect(main([join(dir, 'payload.bin')])).to.equal(0);
+      expect(lines.join('\n')).to.include('string  "bar"');
+      
+      writeFileSync(join(dir, 'corrupt.bin'), standard.serialize({ foo: 'bar' }).slice(0, 20));
+      expect(main([join(dir, 'corrupt.bin'), '--json'])).to.equal(2);
+      expect(JSON.parse(lines[lines.length - 1]).errors).to.deep.equal(['Failed to decode record #0']);
+    } finally {
+      console.log = log;
+      rmSync(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import { expect } from 'chai'
+import { SerdeAlter } from '../src/protocol'
+import { SERDE } from '../src/types'
+
+class Point {
+  [SERDE] = 'test::point' as const;
+  constructor(public x: number, public y: number) {}
+}
+
+class Node {
+  [SERDE] = 'test::node' as const;
+  constructor(public name: string, public next?: Node) {}
+}
+
+describe('json serde', () => {
+  const serde = SerdeAlter().standard()
+    .set('test::point',
+      (ctx, writer, value: Point) => {
+        writer.writeNumber(value.x);
+        writer.writeNumber(value.y);
+      },
+      (ctx, reader) => new Point(reader.readNumber(), reader.readNumber()),
+    )
+    .setSimple('test::node',
+      (value: Node) => ({ name: value.name, next: value.next }),
+      (data, deref) => {
+        const node = new Node(data.name);
+        deref(data.next, next => { node.next = next });
+        return node;
+      },
+    );
+  
+  it('standard types', () => {
+    const ref = {
+      str: 'foo',
+      num: 42,
+      big: 123456789012345678901234567890n,
+      nums: [NaN, Infinity, -Infinity, -0],
+      undef: undefined,
+      date: new Date(0),
+      regex: /foo/gi,
+      set: new Set([1, 'two']),
+      map: new Map<any, any>([['a', 1], [2, { b: 3 }]]),
+      bytes: new Uint8Array([1, 2, 3]),
+      bigs: new BigInt64Array([-1n, 2n]),
+      buffer: new Uint8Array([4, 5]).buffer,
+      url: new URL('https://example.com/?a=1'),
+      boxed: Object(42),
+    };
+    const value = serde.deserializeJSON(serde.serializeJSON(ref));
+    expect(value).to.deep.equal(ref);
+    expect(Object.is(value.nums[3], -0)).to.be.true;
+    expect('undef' in value).to.be.true;
+  });
+  
+  it('errors', () => {
+    const [type, aggregate] = serde.deserializeJSON(serde.serializeJSON([
+      new TypeError('foo'),
+      new AggregateError([new Error('inner')], 'bar'),
+    ]));
+    expect(type).to.be.instanceOf(TypeError);
+    expect(type.message).to.equal('foo');
+    expect(aggregate).to.be.instanceOf(Error);
+    expect(aggregate.name).to.equal('AggregateError');
+    expect(aggregate.message).to.equal('bar');
+  });
+  
+  it('references', () => {
+    const shared = { name: 'shared' };
+    const ref: any = { a: shared, b: [shared] };
+    ref.self = ref;
+    
+    const value = serde.deserializeJSON(serde.serializeJSON(ref));
+    expect(value.a).to.equal(value.b[0]);
+    expect(value.self).to.equal(value);
+    expect(value.a).to.deep.equal(shared);
+  });
+  
+  it('escapes keys', () => {
+    const ref = { $ref: 1, $type: 'number', $$serde: true, plain: 'value' };
+    const json = JSON.parse(serde.serializeJSON(ref));
+    expect(json.refs[0]).to.have.keys('$$ref', '$$type', '$$$serde', 'plain');
+    expect(serde.deserializeJSON(json)).to.deep.equal(ref);
+  });
+  
+  it('custom subprotocols', () => {
+    const tail = new Node('tail');
+    const ref = { point: new Point(1, 2.5), list: new Node('head', new Node('middle', tail)), tail };
+    const json = serde.serializeJSON(ref, { space: 2 });
+    const { refs } = JSON.parse(json);
+    expect(refs[refs[0].point.$ref]).to.have.keys('$type', '$bin');
+    
+    const value = serde.deserializeJSON(json);
+    expect(value).to.deep.equal(ref);
+    expect(value.point).to.be.instanceOf(Point);
+    expect(value.list.next.next).to.equal(value.tail);
+  });
+  
+  it('rejects invalid payloads', () => {
+    expect(() => serde.deserializeJSON('{"refs":[]}')).to.throw('Not a serde JSON payload');
+    expect(() => serde.deserializeJSON('{"$serde":"json","refs":[[{"$ref":1}]]}')).to.throw('Reference ID not found: 1');
+    expect(() => serde.deserializeJSON('{"$serde":"json","refs":[{"$ref":0}]}')).to.throw('Reference record #0 is itself a reference');
+    expect(() => serde.deserializeJSON('{"$serde":"json","refs":[{"$type":"test::unknown"}]}')).to.throw('No such subprotocol: test::unknown');
+  });
+  
+  it('restores __proto__ as own property', () => {
+    const ref = { nested: JSON.parse('{"__proto__": {"polluted": true}, "$$": 1}') };
+    const value = serde.deserializeJSON(serde.serializeJSON(ref));
+    expect(Object.getPrototypeOf(value.nested)).to.equal(Object.prototype);
+    expect(Object.keys(value.nested)).to.deep.equal(['__proto__', '$$']);
+    expect(value.nested['__proto__']).to.deep.equal({ polluted: true });
+    expect(({} as any).polluted).to.be.undefined;
+    
+    const literal = serde.deserializeJSON('{"$serde":"json","refs":[{"__proto__":1}]}');
+    expect(Object.getOwnPropertyDescriptor(literal, '__proto__')!.value).to.equal(1);
+  });
+});
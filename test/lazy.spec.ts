@@ -0,0 +1,101 @@
+import { expect } from 'chai'
+import { SerdeAlter } from '../src/protocol'
+import { SERDE } from '../src/types'
+
+class Counted {
+  [SERDE] = 'test::counted' as const;
+  constructor(public name: string) {}
+}
+
+describe('lazy serde', () => {
+  let decoded: string[] = [];
+  const serde = SerdeAlter().standard()
+    .setSimple('test::counted',
+      (value: Counted) => ({ name: value.name }),
+      data => {
+        decoded.push(data.name);
+        return new Counted(data.name);
+      },
+    );
+
+  beforeEach(() => { decoded = [] });
+
+  it('round trip', () => {
+    const ref = { foo: 'bar', list: [1, { nested: true }, 'three'], map: new Map([[1, { a: 1 }]]), date: new Date(0) };
+    const bytes = serde.serialize(ref, { index: true });
+    expect(serde.open(bytes)).to.deep.equal(ref);
+    expect(serde.deserialize(bytes)).to.deep.equal(ref);
+    expect(Array.isArray(serde.open(bytes).list)).to.be.true;
+    expect(JSON.stringify(serde.open(bytes).list)).to.equal('[1,{"nested":true},"three"]');
+  });
+
+  it('decodes on demand', () => {
+    const ref = {
+      users: Array.from({ length: 10 }, (_, i) => ({ id: i, profile: new Counted(`user ${i}`) })),
+      other: new Counted('other'),
+    };
+    const value = serde.open(serde.serialize(ref, { index: true }));
+    expect(decoded).to.be.empty;
+
+    // values other than objects & arrays are decoded along with the record referencing them
+    expect(value.users[3].id).to.equal(3);
+    expect(decoded).to.deep.equal(['other', 'user 3']);
+    expect(value.users[3].profile.name).to.equal('user 3');
+    expect(value.users[4].id).to.equal(4);
+    expect(decoded).to.deep.equal(['other', 'user 3', 'user 4']);
+    expect(value.users[3].profile).to.be.instanceOf(Counted);
+  });
+
+  it('references', () => {
+    const shared = { name: 'shared' };
+    const ref: any = { a: shared, b: [shared] };
+    ref.self = ref;
+
+    const value = serde.open(serde.serialize(ref, { index: true }));
+    expect(value.a).to.equal(value.b[0]);
+    expect(value.self).to.equal(value);
+    expect(value.a.name).to.equal('shared');
+
+    value.a.name = 'changed';
+    expect(value.b[0].name).to.equal('changed');
+  });
+
+  it('shared buffers', () => {
+    const buffer = new Float32Array([1, 2, 3, 4]).buffer;
+    const ref = { first: { view: new Float32Array(buffer, 8) }, second: { view: new Float32Array(buffer, 0, 2) } };
+    const bytes = serde.serialize(ref, { index: true });
+
+    const value = serde.open(bytes, { zeroCopy: true });
+    expect(Array.from(value.second.view)).to.deep.equal([1, 2]);
+    expect(Array.from(value.first.view)).to.deep.equal([3, 4]);
+    expect(value.first.view.buffer).to.equal(value.second.view.buffer);
+    expect(value.first.view.buffer).to.equal(bytes.buffer);
+  });
+
+  it('frozen objects', () => {
+    // the Map is decoded eagerly while substituting the references of the frozen record
+    const ref = Object.freeze({ m: new Map([[1, new Counted('in map')]]), o: {}, d: new Date(0) });
+    const value = serde.open(serde.serialize(ref, { index: true }));
+    expect(value.m).to.be.instanceOf(Map);
+    expect(value.m.get(1)).to.be.instanceOf(Counted);
+    expect(value.o).to.deep.equal({});
+    expect(value.d).to.be.instanceOf(Date);
+    expect(Object.isFrozen(value)).to.be.true;
+  });
+
+  it('envelope', () => {
+    const ref = { foo: 'bar', list: [1, 2, 3] };
+    expect(serde.open(serde.serialize(ref, { index: true, compression: 'lz', checksum: 'crc32' }))).to.deep.equal(ref);
+  });
+
+  it('requires an index', () => {
+    expect(() => serde.open(serde.serialize({ foo: 'bar' }, { header: true }))).to.throw('Payload has no index');
+    expect(() => serde.serialize({ foo: 'bar' }, { index: true, compact: true })).to.throw('Indices are not supported by the compact encoding');
+  });
+
+  it('rejects invalid indices', () => {
+    const bytes = serde.serialize({ foo: 'bar' }, { index: true });
+    bytes[bytes.length - 4] = 0xFF;
+    expect(() => serde.open(bytes)).to.throw('Invalid index offset');
+  });
+});
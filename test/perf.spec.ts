@@ -0,0 +1,92 @@
+import { expect } from 'chai'
+import * as perf from '../src/perf'
+import Serde, { SerdeAlter } from '../src/protocol'
+import { SERDE } from '../src/types'
+import Writer from '../src/writer'
+
+class Point {
+  [SERDE] = 'test::point' as const;
+  constructor(public x: number, public y: number) {}
+}
+
+describe('profiling', () => {
+  const serde = SerdeAlter().standard()
+    .set('test::point',
+      (ctx, writer, value: Point) => {
+        writer.writeNumber(value.x);
+        writer.writeNumber(value.y);
+      },
+      (ctx, reader) => new Point(reader.readNumber(), reader.readNumber()));
+  const points = Array.from({ length: 100 }, (_, i) => new Point(i, -i));
+
+  afterEach(() => {
+    Serde.measurePerformance(false);
+    Serde.resetProfile();
+  });
+
+  it('is disabled by default', () => {
+    serde.deserialize(serde.serialize(points));
+    expect(perf.enabled).to.be.false;
+    expect(Serde.profile()).to.deep.equal({ subprotocols: {}, measures: {}, resizes: 0 });
+  });
+
+  it('aggregates stats per subprotocol', () => {
+    Serde.measurePerformance();
+    // pooled Writers may not need to grow
+    serde.deserialize(serde.serialize(points, new Writer()));
+    const { subprotocols, measures, resizes } = Serde.profile();
+
+    const { serialize, deserialize } = subprotocols['test::point'];
+    expect(serialize).to.include({ calls: 100, errors: 0, bytes: 1600 });
+    expect(deserialize).to.include({ calls: 100, errors: 0, bytes: 1600 });
+    expect(serialize!.p50).to.be.within(serialize!.min, serialize!.p99);
+    expect(serialize!.p99).to.be.at.most(serialize!.max);
+    expect(serialize!.mean).to.be.closeTo(serialize!.total / 100, 1e-9);
+    expect(subprotocols.object.serialize!.calls).to.equal(1);
+    expect(subprotocols.reference.deserialize!.calls).to.equal(100);
+
+    expect(measures.writeReferences.calls).to.equal(1);
+    expect(measures.readReferences.calls).to.equal(1);
+    expect(resizes).to.equal(measures['Writer.resize'].calls).and.to.be.greaterThan(0);
+    expect(measures['Writer.resize'].bytes).to.be.greaterThan(1600);
+  });
+
+  it('counts errors', () => {
+    Serde.measurePerformance();
+    expect(() => serde.deserialize(serde.serialize(points).subarray(0, 100))).to.throw();
+    expect(Serde.profile().measures.readReferences).to.include({ calls: 1, errors: 1 });
+  });
+
+  it('resets', () => {
+    Serde.measurePerformance();
+    serde.serialize(points);
+    Serde.resetProfile();
+    expect(Serde.profile().subprotocols).to.deep.equal({});
+    serde.serialize(new Point(1, 2));
+    expect(Serde.profile().subprotocols['test::point'].serialize!.calls).to.equal(1);
+  });
+
+  it('scoped sessions', () => {
+    const outer = Serde.startProfiling();
+    serde.serialize(points);
+    const inner = Serde.startProfiling();
+    serde.serialize(new Point(1, 2));
+    const innerProfile = inner.stop();
+    expect(perf.enabled).to.be.true;
+    const outerProfile = outer.stop();
+    expect(perf.enabled).to.be.false;
+
+    expect(innerProfile.subprotocols['test::point'].serialize!.calls).to.equal(1);
+    expect(outerProfile.subprotocols['test::point'].serialize!.calls).to.equal(101);
+    expect(inner.active).to.be.false;
+    expect(Serde.profile().subprotocols).to.deep.equal({});
+  });
+
+  it('bounds samples', () => {
+    const session = Serde.startProfiling();
+    for (let i = 0; i < perf.MAX_SAMPLES * 2; ++i)
+      serde.serialize(i);
+    const { number } = session.stop().subprotocols;
+    expect(number.serialize).to.include({ calls: perf.MAX_SAMPLES * 2, samples: perf.MAX_SAMPLES });
+  });
+});
@@ -0,0 +1,75 @@
+import { expect } from 'chai'
+import { SerdeDecodeError } from '../src/errors'
+import Serde from '../src/protocol'
+import Writer from '../src/writer'
+
+describe('safe mode', () => {
+  const serde = Serde().standard();
+  const ref = { foo: 'bar', list: [1, 2, 3], set: new Set(['a']), map: new Map([[1, 2]]) };
+  
+  it('truncation', () => {
+    const bytes = serde.serialize(ref);
+    for (let length = 0; length < bytes.length; ++length) {
+      expect(() => serde.deserialize(bytes.slice(0, length)), `length ${length}`).to.throw(SerdeDecodeError);
+    }
+  });
+  
+  it('reports offset', () => {
+    const bytes = serde.serialize('foobar');
+    try {
+      serde.deserialize(bytes.slice(0, 20));
+      expect.fail('expected SerdeDecodeError');
+    } catch (err) {
+      expect(err).to.be.instanceOf(SerdeDecodeError);
+      expect((err as SerdeDecodeError).offset).to.equal(17); // 4B count, 4B refid, 1B retarget, 4B hash, 4B length
+    }
+  });
+  
+  it('crafted lengths', () => {
+    // 1 reference, root id 0 w/o retarget, tagged array w/ 0xFFFFFFF0 items
+    const writer = new Writer();
+    writer.writeUInt32(1);
+    writer.writeUInt32(0);
+    writer.writeBool(false);
+    writer.writeBytes(serde.serializeAs('array', []).compress().buffer.slice(9, 13));
+    // object flags of a dense array
+    writer.writeFlags(true);
+    writer.writeUInt32(0xFFFFFFF0);
+    const bytes = writer.compress().buffer;
+    expect(() => serde.deserialize(bytes)).to.throw(SerdeDecodeError, 'exceeds the remaining 0 bytes');
+  });
+  
+  it('limits', () => {
+    const deserialize = (value: any, safe: object) => () => serde.deserialize(serde.serialize(value), { safe });
+    expect(deserialize(ref, {})).to.not.throw();
+    expect(deserialize('foobar', { maxStringLength: 5 })).to.throw(SerdeDecodeError, 'exceeds maxStringLength of 5');
+    expect(deserialize([1, 2, 3], { maxCollectionLength: 2 })).to.throw(SerdeDecodeError, 'exceeds maxCollectionLength of 2');
+    expect(deserialize(new Set([1, 2, 3]), { maxCollectionLength: 2 })).to.throw(SerdeDecodeError, 'exceeds maxCollectionLength of 2');
+    expect(deserialize([{}, {}], { maxReferences: 2 })).to.throw(SerdeDecodeError, 'exceeds maxReferences of 2');
+    expect(deserialize([1], { maxDepth: 1 })).to.throw(SerdeDecodeError, 'exceeds maxDepth of 1');
+    expect(deserialize(ref, { maxBytes: 16 })).to.throw(SerdeDecodeError, 'exceeds maxBytes of 16');
+  });
+  
+  it('restores __proto__ as own property', () => {
+    for (const json of ['{"__proto__": {"polluted": true}}', '{"__proto__": 1}']) {
+      const ref = JSON.parse(json);
+      const value = serde.deserialize(serde.serialize(ref), { safe: true });
+      expect(Object.getPrototypeOf(value)).to.equal(Object.prototype);
+      expect(Object.getOwnPropertyDescriptor(value, '__proto__')!.value).to.deep.equal(ref['__proto__']);
+      expect(value).to.deep.equal(ref);
+    }
+    expect(({} as any).polluted).to.be.undefined;
+  });
+  
+  it('unknown subprotocols', () => {
+    const bytes = serde.serialize('foo');
+    bytes.set([0, 0, 0, 0], 9);
+    expect(() => Serde().standard().deserialize(bytes)).to.throw(SerdeDecodeError, 'Failed subprotocol hash lookup: 0');
+  });
+  
+  it('dangling references', () => {
+    const bytes = serde.serialize([{}]);
+    bytes.set([7, 0, 0, 0], 22); // id of the reference within the array
+    expect(() => serde.deserialize(bytes)).to.throw(SerdeDecodeError, 'Reference ID not found: 7');
+  });
+});
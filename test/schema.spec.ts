@@ -0,0 +1,99 @@
+import { expect } from 'chai'
+import { SerdeAlter } from '../src/protocol'
+import { s } from '../src/schema'
+import { SERDE } from '../src/types'
+
+describe('schema', () => {
+  const Item = s.struct({
+    id: s.uint32(),
+    name: s.string(),
+    tags: s.array(s.string()),
+  });
+  const serde = SerdeAlter().standard().setSchema('test::item', Item);
+  
+  it('struct', () => {
+    const ref = { id: 42, name: 'foo', tags: ['a', 'b'] };
+    const bytes = serde.serializeAs('test::item', ref).compress().buffer;
+    // 8B refs header, 1B ref retarget, 4B hash, 4B id, 4B+3B name, 4B tags length, 2 * (4B+1B) tags
+    expect(bytes.length).to.equal(38);
+    expect(serde.deserializeAs('test::item', bytes)).to.deep.equal(ref);
+  });
+  
+  it('primitives', () => {
+    const schema = s.struct({
+      bool: s.bool(),
+      uint8: s.uint8(),
+      int32: s.int32(),
+      varint: s.varint(),
+      float32: s.float32(),
+      float64: s.float64(),
+      bigint: s.bigint(),
+      bytes: s.bytes(),
+      string: s.string(),
+      optional: s.optional(s.uint8()),
+      missing: s.optional(s.uint8()),
+    });
+    const ref = {
+      bool: true,
+      uint8: 255,
+      int32: -42,
+      varint: 2**40,
+      float32: 0.5,
+      float64: 69.69,
+      bigint: BigInt('0x123456789123456789'),
+      bytes: new Uint8Array([1, 2, 3]),
+      string: 'ünïcödé 🎉',
+      optional: 7,
+      missing: undefined,
+    };
+    const serde = SerdeAlter().standard().setSchema('test::primitives', schema);
+    const bytes = serde.serializeAs('test::primitives', ref).compress().buffer;
+    expect(serde.deserializeAs('test::primitives', bytes)).to.deep.equal(ref);
+  });
+  
+  it('validates integers', () => {
+    const serde = SerdeAlter().standard().setSchema('test::int', s.struct({ value: s.uint8() }));
+    expect(() => serde.serializeAs('test::int', { value: 256 })).to.throw('Expected uint8, got 256');
+    expect(() => serde.serializeAs('test::int', { value: 1.5 })).to.throw('Expected uint8, got 1.5');
+  });
+  
+  it('nested', () => {
+    const schema = s.struct({
+      items: s.array(Item),
+      best: s.optional(Item),
+    });
+    const serde = SerdeAlter().standard().setSchema('test::nested', schema);
+    const ref = {
+      items: [
+        { id: 1, name: 'foo', tags: [] },
+        { id: 2, name: 'bar', tags: ['baz'] },
+      ],
+      best: { id: 3, name: 'qux', tags: [] },
+    };
+    const bytes = serde.serializeAs('test::nested', ref).compress().buffer;
+    expect(serde.deserializeAs('test::nested', bytes)).to.deep.equal(ref);
+  });
+  
+  it('any', () => {
+    class Node {
+      [SERDE] = 'test::node' as const;
+      constructor(public name: string, public data: any) {}
+    }
+    const schema = s.struct({ name: s.string(), data: s.any() }, () => new Node('', undefined));
+    const serde = SerdeAlter().standard().setSchema('test::node', schema);
+    
+    const shared = { foo: 'bar' };
+    const ref = [new Node('a', shared), new Node('b', shared)];
+    const value = serde.deserialize(serde.serialize(ref));
+    expect(value).to.deep.equal(ref);
+    expect(value[0]).to.be.instanceOf(Node);
+    expect(value[0].data).to.equal(value[1].data);
+  });
+  
+  it('compact', () => {
+    const ref = { id: 42, name: 'foo', tags: ['a', 'b'] };
+    const bytes = serde.serializeAs('test::item', ref, { compact: true }).compress().buffer;
+    expect(bytes.length).to.equal(24);
+    expect(serde.deserializeAs('test::item', bytes, { compact: true })).to.deep.equal(ref);
+  });
+});
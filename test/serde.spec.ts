@@ -1,7 +1,10 @@
 import { expect } from 'chai'
 import Serde, { SerdeAlter, StandardProtocolMap } from '../src/protocol'
+import { FORMAT_VERSION } from '../src/header';
 import Reader from '../src/reader';
-import { Reference, SERDE } from '../src/types';
+import Writer from '../src/writer';
+import { Reference, SERDE, SUBSERDE } from '../src/types';
+import { hash, patchSerde, patchSubserde } from '../src/util';
 
 const standard = Serde().standard();
 
@@ -35,6 +38,45 @@ describe('standard serde', () => {
       expect(value).to.equal('');
       expect(reader.tell()).to.equal(17);
     });
+    
+    it('multibyte', () => {
+      const refs = ['héllo wörld', '日本語', '👋 emoji 🏳️‍🌈', 'x\u{10FFFF}y'];
+      for (const ref of refs) {
+        const bytes = standard.serializeAs('string', ref).compress().buffer;
+        expect(bytes.length).to.equal(17 + new TextEncoder().encode(ref).length);
+        expect(standard.deserializeAs('string', bytes)).to.equal(ref);
+      }
+      
+      // strings must not corrupt the values following them
+      const ref = { name: 'Zoë 👩‍💻', list: ['ü', 'ß', '🙂'], next: 42 };
+      expect(standard.deserialize(standard.serialize(ref))).to.deep.equal(ref);
+      expect(standard.deserialize(standard.serialize(ref, { compact: true }), { compact: true })).to.deep.equal(ref);
+    });
+    
+    it('lone surrogates', () => {
+      // not representable in UTF-8, thus replaced with U+FFFD
+      const ref = ['a\uD800b', '\uDC00', 'end'];
+      expect(standard.deserialize(standard.serialize(ref))).to.deep.equal(['a\uFFFDb', '\uFFFD', 'end']);
+    });
+    
+    it('legacy layout', () => {
+      // format version 1 prefixed strings with their UTF-16 length
+      const legacy = SerdeAlter().standard().set('string',
+        (_, writer, value: string) => {
+          writer.writeUInt(value.length);
+          writer.writeBytes(new TextEncoder().encode(value));
+        },
+        standard.subprotocols.string.deserialize,
+        true,
+      );
+      const ref = { name: 'Zoë 👩‍💻', lone: 'a\uD800b', list: ['ü', '🙂'], next: 42 };
+      const expected = { ...ref, lone: 'a\uFFFDb' };
+      
+      const bytes = legacy.serialize(ref, { header: true });
+      bytes[4] = 1;
+      expect(standard.deserialize(bytes)).to.deep.equal(expected);
+      expect(standard.deserialize(legacy.serialize(ref), { formatVersion: 1 })).to.deep.equal(expected);
+    });
   });
   
   it('undefined/null', () => {
@@ -67,6 +109,18 @@ describe('standard serde', () => {
       expect(bytes.length).to.equal(21);
       expect(standard.deserialize(bytes)).to.equal(42);
     });
+    
+    it('NaN payloads', () => {
+      const bits = (num: number) => [...new Uint32Array(new Float64Array([num]).buffer)];
+      // a quiet NaN with a payload, as engines may quiet signaling NaNs
+      const nan = new Float64Array(new Uint32Array([1, 0x7FF80000]).buffer)[0];
+      for (const options of [{}, { compact: true }]) {
+        const { value } = standard.deserialize(standard.serialize({ value: nan }, options), options);
+        expect(bits(value)).to.deep.equal([1, 0x7FF80000]);
+      }
+      const { value } = standard.deserialize(standard.serialize({ value: nan }, { canonical: true }));
+      expect(bits(value)).to.deep.equal([0, 0x7FF80000]);
+    });
   });
   
   it('bigint', () => {
@@ -100,19 +154,84 @@ describe('standard serde', () => {
     }
   });
   
+  it('date', () => {
+    const ref = new Date('2023-01-02T03:04:05.678Z');
+    const value = standard.deserialize(standard.serialize(ref));
+    expect(value).to.be.instanceOf(Date);
+    expect(value.getTime()).to.equal(ref.getTime());
+    expect(standard.deserialize(standard.serialize(new Date(NaN))).getTime()).to.be.NaN;
+  });
+  
+  describe('error', () => {
+    it('native', () => {
+      const ref = new TypeError('foobar');
+      const value = standard.deserialize(standard.serialize(ref));
+      expect(value).to.be.instanceOf(TypeError);
+      expect(value.name).to.equal('TypeError');
+      expect(value.message).to.equal('foobar');
+      expect(value.stack).to.equal(ref.stack);
+      expect('cause' in value).to.be.false;
+    });
+    
+    it('custom name', () => {
+      class CustomError extends Error {
+        name = 'CustomError';
+      }
+      const value = standard.deserialize(standard.serialize(new CustomError('foobar')));
+      expect(value).to.be.instanceOf(Error);
+      expect(value.name).to.equal('CustomError');
+      expect(value.message).to.equal('foobar');
+    });
+    
+    it('cause', () => {
+      const data = { foo: 'bar' };
+      const ref = {
+        data,
+        error: new (Error as any)('outer', { cause: new RangeError('inner', { cause: data }) as any }),
+      };
+      const value = standard.deserialize(standard.serialize(ref));
+      expect(value.error.message).to.equal('outer');
+      expect(value.error.cause).to.be.instanceOf(RangeError);
+      expect(value.error.cause.message).to.equal('inner');
+      expect(value.error.cause.cause).to.equal(value.data);
+      expect(Object.keys(value.error)).to.not.include('cause');
+    });
+  });
+  
+  it('url', () => {
+    const ref = new URL('https://example.com/foo?bar=baz#qux');
+    const value = standard.deserialize(standard.serialize(ref));
+    expect(value).to.be.instanceOf(URL);
+    expect(value.href).to.equal(ref.href);
+    
+    const params = standard.deserialize(standard.serialize(new URLSearchParams('a=1&b=2&a=3')));
+    expect(params).to.be.instanceOf(URLSearchParams);
+    expect(params.getAll('a')).to.deep.equal(['1', '3']);
+  });
+  
+  it('boxed', () => {
+    const ref = [new Number(42), new String('foo'), new Boolean(false), Object(BigInt(69))];
+    const value = standard.deserialize(standard.serialize(ref));
+    expect(value[0]).to.be.instanceOf(Number);
+    expect(value[1]).to.be.instanceOf(String);
+    expect(value[2]).to.be.instanceOf(Boolean);
+    expect(value[3]).to.be.instanceOf(BigInt);
+    expect(value.map((v: any) => v.valueOf())).to.deep.equal([42, 'foo', false, BigInt(69)]);
+  });
+  
   // utilizes arraybuffer
   describe('buffer', () => {
     it('serializeAs', () => {
       const ref = Buffer.from([1, 2, 3, 4, 5]);
       const bytes = standard.serializeAs('buffer', ref).compress().buffer;
-      expect(bytes.length).to.equal(22); // 8B refs header, 1B ref retarget, 4B hash, 4B length, 5B payload
+      expect(bytes.length).to.equal(23); // 8B refs header, 1B ref retarget, 4B hash, 1B inline, 4B length, 5B payload
       expect(standard.deserializeAs('buffer', bytes)).to.deep.equal(ref);
     });
     
     it('serialize', () => {
       const ref = Buffer.from([1, 2, 3, 4, 5]);
       const bytes = standard.serialize(ref);
-      expect(bytes.length).to.equal(22); // 8B refs header, 1B no ref retarget, 4B hash, 4B length, 5B payload
+      expect(bytes.length).to.equal(23); // 8B refs header, 1B no ref retarget, 4B hash, 1B inline, 4B length, 5B payload
       expect(standard.deserialize(bytes)).to.deep.equal(ref);
     });
   });
@@ -120,25 +239,107 @@ describe('standard serde', () => {
   // utilizes arraybuffer
   describe('typedarray', () => {
     it('Uint8Array', () => {
-      const ref = new Uint8Array([1, 2, 3, 4, 5]); // 12B refs header, 1B TypedArray variant, 4B size, 5*(1B payload)
+      // 13B refs header, 1B TypedArray variant, 1B inline, 4B size, 1B padding length, 4B padding, 5*(1B payload), 4B offset, 4B length
+      const ref = new Uint8Array([1, 2, 3, 4, 5]);
       const bytes = standard.serialize(ref);
-      expect(bytes.length).to.equal(23);
+      expect(bytes.length).to.equal(37);
       expect(standard.deserialize(bytes)).to.deep.equal(ref);
     });
     
     it('Float64Array', () => {
       const ref = new Float64Array([69.69, 24.25, 4.20]);
       const bytes = standard.serialize(ref);
-      expect(bytes.length).to.equal(42);
+      expect(bytes.length).to.equal(56);
       expect(standard.deserialize(bytes)).to.deep.equal(ref);
     });
     
     it('BigUint64', () => {
       const ref = new BigUint64Array([BigInt(1), BigInt(2), BigInt(3)]);
       const bytes = standard.serialize(ref);
-      expect(bytes.length).to.equal(42);
+      expect(bytes.length).to.equal(56);
       expect(standard.deserialize(bytes)).to.deep.equal(ref);
     });
+    
+    it('shared buffers', () => {
+      const buffer = new ArrayBuffer(16);
+      const floats = new Float32Array(buffer, 4, 2);
+      const bytes = new Uint8Array(buffer);
+      floats.set([1.5, -2]);
+      const ref = { floats, bytes, tail: bytes.subarray(12), buffer };
+      
+      const data = standard.serialize(ref);
+      expect(data.length).to.be.lessThan(standard.serialize({ ...ref, floats: floats.slice() }).length);
+      
+      for (const value of [standard.deserialize(data), standard.deserialize(data, { zeroCopy: true })]) {
+        expect(value).to.deep.equal(ref);
+        expect(value.floats.buffer).to.equal(value.bytes.buffer);
+        expect(value.tail.buffer).to.equal(value.bytes.buffer);
+        expect([value.floats.byteOffset - value.bytes.byteOffset, value.tail.byteOffset - value.bytes.byteOffset]).to.deep.equal([4, 12]);
+        
+        value.bytes[15] = 42;
+        expect(value.tail[3]).to.equal(42);
+        value.floats[0] = 3;
+        expect(new Float32Array(value.bytes.buffer, value.bytes.byteOffset + 4, 1)[0]).to.equal(3);
+      }
+      
+      // like `structuredClone`, but ArrayBuffers cannot be views into the payload in zero-copy mode
+      const value = standard.deserialize(data);
+      expect(value.buffer).to.equal(value.bytes.buffer);
+    });
+    
+    it('zero-copy', () => {
+      const ref = { mesh: new Float32Array([1, 2.5, -3]), big: new BigInt64Array([-1n]), buf: Buffer.from([1, 2]), raw: new Uint8Array([3]).buffer };
+      const bytes = standard.serialize(ref, { header: true });
+      const value = standard.deserialize(bytes, { zeroCopy: true });
+      expect(value).to.deep.equal(ref);
+      expect(value.mesh.buffer).to.equal(bytes.buffer);
+      expect(value.big.buffer).to.equal(bytes.buffer);
+      expect(value.buf.buffer).to.equal(bytes.buffer);
+      expect(value.raw).to.not.equal(bytes.buffer);
+      
+      // views share memory with the source
+      new Float32Array(bytes.buffer, value.mesh.byteOffset, 1)[0] = 42;
+      expect(value.mesh[0]).to.equal(42);
+      expect(standard.deserialize(bytes).mesh.buffer).to.not.equal(bytes.buffer);
+    });
+    
+    it('copies unaligned data', () => {
+      const ref = new Float64Array([1.5, 2.5]);
+      const source = new Uint8Array(standard.serialize(ref).length + 1);
+      const bytes = source.subarray(1);
+      bytes.set(standard.serialize(ref));
+      
+      const value = standard.deserialize(bytes, { zeroCopy: true });
+      expect(value).to.deep.equal(ref);
+      expect(value.buffer).to.not.equal(source.buffer);
+    });
+    
+    it('chunks', () => {
+      const mesh = new Float32Array([1, 2, 3]);
+      const stored = new Map<string, Uint8Array>();
+      const ref = { name: 'mesh', mesh, inline: new Uint8Array([1]) };
+      const bytes = standard.serialize(ref, {
+        chunks: value => {
+          if (value !== mesh.buffer) return;
+          stored.set('mesh-0', new Uint8Array(mesh.buffer.slice(0)));
+          return 'mesh-0';
+        },
+      });
+      expect(bytes.length).to.be.lessThan(standard.serialize(ref).length);
+      
+      const chunks = (key: string) => stored.get(key);
+      expect(standard.deserialize(bytes, { chunks })).to.deep.equal(ref);
+      expect(standard.deserialize(bytes, { chunks, zeroCopy: true }).mesh.buffer).to.equal(stored.get('mesh-0')!.buffer);
+      expect(() => standard.deserialize(bytes)).to.throw('Binary chunk not found: mesh-0');
+    });
+    
+    it('legacy layout', () => {
+      // format version 1 neither aligned binary data nor supported chunks
+      const writer = new Writer().writeUInt32(1).writeUInt32(0).writeBool(false);
+      writer.writeUInt32(hash('typedarray')).writeByte(5).writeUInt32(4).writeBytes(new Uint8Array(new Uint16Array([1, 2]).buffer));
+      const bytes = writer.compress().buffer;
+      expect(standard.deserialize(bytes, { formatVersion: 1 })).to.deep.equal(new Uint16Array([1, 2]));
+    });
   });
   
   describe('array', () => {
@@ -168,6 +369,45 @@ describe('standard serde', () => {
       expect(standard.deserialize(bytes)).to.deep.equal(ref);
     });
     
+    it('holes & props', () => {
+      const ref: any = [1, , 3];
+      ref[9] = 'last';
+      ref.label = 'sparse';
+      for (const options of [{}, { compact: true }, { canonical: true }]) {
+        const val = standard.deserialize(standard.serialize(ref, options), options) as any;
+        expect(val).to.have.length(10);
+        expect(Object.keys(val)).to.deep.equal(['0', '2', '9', 'label']);
+        expect(val).to.deep.equal(ref);
+      }
+      
+      // as many keys as items
+      const mixed: any = [1, , 3];
+      mixed.label = 'mixed';
+      expect(Object.keys(standard.deserialize(standard.serialize(mixed)) as any)).to.deep.equal(['0', '2', 'label']);
+      
+      const dense: any = [-0, NaN];
+      dense.self = dense;
+      const val = standard.deserialize(standard.serialize(dense)) as any;
+      expect(Object.is(val[0], -0)).to.be.true;
+      expect(val[1]).to.be.NaN;
+      expect(val.self).to.equal(val);
+    });
+    
+    it('rejects invalid sparse indices', () => {
+      const writer = new Writer();
+      writer.writeUInt32(1);
+      writer.writeUInt(0);
+      writer.writeBool(false);
+      writer.writeUInt32(hash('array'));
+      writer.writeFlags(true, true);
+      writer.writeUInt(2);
+      writer.writeUInt(1);
+      writer.writeUInt(2);
+      writer.writeUInt32(hash('number'));
+      writer.writeNumber(42);
+      expect(() => standard.deserialize(writer.compress().buffer)).to.throw('Invalid index 2 of sparse array of length 2');
+    });
+    
     it.skip('subserde', () => {
       throw new Error('not yet implemented')
     });
@@ -221,6 +461,58 @@ describe('standard serde', () => {
       expect(val.ref.ref).to.equal(val);
     });
     
+    it('null prototype', () => {
+      const ref = Object.assign(Object.create(null), { foo: 'foo' });
+      ref['__proto__'] = 'own';
+      const val = standard.deserialize(standard.serialize(ref)) as any;
+      expect(Object.getPrototypeOf(val)).to.be.null;
+      expect(Object.keys(val)).to.deep.equal(['foo', '__proto__']);
+      expect(val['__proto__']).to.equal('own');
+    });
+    
+    it('integrity levels', () => {
+      const frozen: any = Object.freeze({ list: Object.seal([1, 2]), inner: Object.preventExtensions({ a: 1 }) });
+      const val = standard.deserialize(standard.serialize(frozen)) as any;
+      expect(val).to.deep.equal(frozen);
+      expect(Object.isFrozen(val)).to.be.true;
+      expect(Object.isSealed(val.list) && !Object.isFrozen(val.list)).to.be.true;
+      expect(Object.isExtensible(val.inner) || Object.isSealed(val.inner)).to.be.false;
+      expect(Object.isExtensible(standard.deserialize(standard.serialize({})))).to.be.true;
+    });
+    
+    it('frozen cycles', () => {
+      const ref: any = { name: 'outer' };
+      ref.inner = Object.freeze({ outer: ref });
+      Object.freeze(ref);
+      for (const lazy of [false, true]) {
+        const bytes = standard.serialize(ref, { index: lazy });
+        const val = (lazy ? standard.open(bytes) : standard.deserialize(bytes)) as any;
+        expect(val.inner.outer).to.equal(val);
+        expect(Object.isFrozen(val) && Object.isFrozen(val.inner)).to.be.true;
+      }
+      
+      const val = standard.open(standard.serialize({ list: [1] }, { index: true }));
+      Object.freeze(val.list);
+      expect(Object.isFrozen(val.list)).to.be.true;
+      expect(() => val.list.push(2)).to.throw(TypeError);
+    });
+    
+    it('legacy layout', () => {
+      const writer = new Writer();
+      writer.writeUInt32(1);
+      writer.writeUInt(0);
+      writer.writeBool(false);
+      writer.writeUInt32(hash('array'));
+      // format version 2 wrote whether the object is an array instead of its flags
+      writer.writeBool(true);
+      writer.writeUInt(1);
+      writer.writeUInt32(hash('number'));
+      writer.writeNumber(42);
+      const bytes = writer.compress().buffer;
+      expect(standard.deserialize(bytes, { formatVersion: 2 })).to.deep.equal([42]);
+      expect(() => standard.deserialize(bytes)).to.throw('Invalid object flags: 11111111');
+    });
+    
     it.skip('subserde', () => {
       throw new Error('not yet implemented');
     });
@@ -239,6 +531,164 @@ describe('standard serde', () => {
     expect(standard.deserialize(bytes)).to.deep.equal(ref);
   });
   
+  describe('header', () => {
+    it('round trip', () => {
+      const ref = { foo: 'foo', bar: [1, 2, 3] };
+      const bytes = standard.serialize(ref, { header: true });
+      expect(Array.from(bytes.slice(0, 6))).to.deep.equal([0x53, 0x52, 0x44, 0x45, FORMAT_VERSION, 0]);
+      expect(bytes.length).to.equal(standard.serialize(ref).length + 6);
+      expect(standard.deserialize(bytes)).to.deep.equal(ref);
+      expect(standard.deserialize(bytes, { header: true })).to.deep.equal(ref);
+    });
+    
+    it('serializeAs', () => {
+      const bytes = standard.serializeAs('string', 'foobar', { header: true }).compress().buffer;
+      expect(bytes.length).to.equal(29);
+      expect(standard.deserializeAs('string', bytes, { header: true })).to.equal('foobar');
+    });
+    
+    it('rejects foreign data', () => {
+      const bytes = standard.serialize('foobar');
+      expect(() => standard.deserialize(bytes, { header: true })).to.throw('Not a serde payload: missing magic bytes');
+    });
+    
+    it('rejects unsupported versions & flags', () => {
+      const bytes = standard.serialize('foobar', { header: true });
+      bytes[4] = FORMAT_VERSION + 1;
+      expect(() => standard.deserialize(bytes)).to.throw(`Unsupported serde format version ${FORMAT_VERSION + 1}`);
+      bytes[4] = FORMAT_VERSION;
+      bytes[5] = 0b00000001;
+      expect(() => standard.deserialize(bytes)).to.throw('Unsupported serde header flags: 0b00000001');
+    });
+  });
+  
+  describe('compact', () => {
+    it('varint', () => {
+      const writer = new Writer().writeVarint(0).writeVarint(127).writeVarint(300).writeVarint(Number.MAX_SAFE_INTEGER);
+      const bytes = writer.compress().buffer;
+      expect(Array.from(bytes.slice(0, 4))).to.deep.equal([0, 0x7F, 0xAC, 0x02]);
+      expect(bytes.length).to.equal(12);
+      
+      const reader = new Reader(bytes);
+      expect([reader.readVarint(), reader.readVarint(), reader.readVarint(), reader.readVarint()])
+        .to.deep.equal([0, 127, 300, Number.MAX_SAFE_INTEGER]);
+      
+      for (const last of [0x10, 0x7F, 0xFF]) {
+        const unsafe = new Reader(new Uint8Array([0x01, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, last]));
+        unsafe.readByte();
+        expect(() => unsafe.readVarint()).to.throw('Varint exceeds safe integer range (at offset 1)');
+      }
+    });
+    
+    it('number', () => {
+      const bytes = standard.serialize(42, { compact: true });
+      expect(bytes.length).to.equal(12); // 4B refs count, 1B ref ID, 1B ref retarget, 1B tag index, 4B hash, 1B number
+      expect(standard.deserialize(bytes, { compact: true })).to.equal(42);
+      
+      const refs = [0, 239, 240, 1e9, -1, -0, 0.5, 1.1, NaN, Infinity, -Infinity, Number.MAX_SAFE_INTEGER, 2**60];
+      const values = standard.deserialize(standard.serialize(refs, { compact: true }), { compact: true });
+      expect(values).to.deep.equal(refs);
+      expect(Object.is(values[5], -0)).to.be.true;
+    });
+    
+    it('tag table', () => {
+      const ref = { foo: 'foo', bar: 'bar', list: ['a', 'b', 'c', 1, 2, 3] };
+      const bytes = standard.serialize(ref, { compact: true });
+      expect(bytes.length).to.be.lessThan(standard.serialize(ref).length / 2);
+      expect(standard.deserialize(bytes, { compact: true })).to.deep.equal(ref);
+    });
+    
+    it('references', () => {
+      const ref1: any = { map: new Map<any, any>([['foo', 1], [2, new Set(['bar', 3])]]) };
+      ref1.self = ref1;
+      const value = standard.deserialize(standard.serialize(ref1, { compact: true }), { compact: true });
+      expect(value.self).to.equal(value);
+      expect(value.map).to.deep.equal(ref1.map);
+    });
+    
+    it('header', () => {
+      const ref = { foo: 'foo', bar: 42 };
+      const bytes = standard.serialize(ref, { compact: true, header: true });
+      expect(bytes[5]).to.equal(0b01000000);
+      expect(standard.deserialize(bytes)).to.deep.equal(ref);
+    });
+  });
+  
+  describe('canonical', () => {
+    const canonical = (value: any) => standard.serialize(value, { canonical: true });
+    
+    it('sorts object keys', () => {
+      const a = { foo: 1, bar: [1, 2], baz: { y: 1, x: 2 } };
+      const b = { baz: { x: 2, y: 1 }, bar: [1, 2], foo: 1 };
+      expect(standard.serialize(a)).to.not.deep.equal(standard.serialize(b));
+      expect(canonical(a)).to.deep.equal(canonical(b));
+      expect(standard.deserialize(canonical(a))).to.deep.equal(a);
+    });
+    
+    it('sorts sets & maps', () => {
+      const a = { set: new Set([3, 'one', 2n, { x: 1 }]), map: new Map<any, any>([['b', 1], [{ k: 1 }, 2], ['a', new Set([2, 1])]]) };
+      const b = { map: new Map<any, any>([['a', new Set([1, 2])], ['b', 1], [{ k: 1 }, 2]]), set: new Set([{ x: 1 }, 2n, 'one', 3]) };
+      expect(canonical(a)).to.deep.equal(canonical(b));
+      expect(standard.deserialize(canonical(a))).to.deep.equal(a);
+    });
+    
+    it('numbers references stably', () => {
+      const build = (reverse: boolean) => {
+        const shared = { name: 'shared' };
+        const cyclic: any = { shared };
+        cyclic.self = cyclic;
+        const entries: [string, any][] = [['first', shared], ['second', [shared, cyclic]], ['third', { cyclic }]];
+        return Object.fromEntries(reverse ? entries.reverse() : entries);
+      };
+      expect(canonical(build(false))).to.deep.equal(canonical(build(true)));
+      
+      const value = standard.deserialize(canonical(build(true)));
+      expect(value.first).to.equal(value.second[0]);
+      expect(value.second[1].self).to.equal(value.second[1]);
+    });
+    
+    it('breaks ties by references', () => {
+      const a = { x: 1 };
+      const b = { x: 1 };
+      expect(canonical({ set: new Set([a, b]), first: a })).to.deep.equal(canonical({ set: new Set([b, a]), first: a }));
+      expect(canonical({ map: new Map([['k', a], ['k2', a]]), set: new Set([b, a]) })).to.deep.equal(canonical({ map: new Map([['k', a], ['k2', a]]), set: new Set([a, b]) }));
+      
+      // limitation: equal items are interchangeable when sorted, but not once referenced by a later record
+      expect(canonical({ set: new Set([a, b]), z: [a] })).to.not.deep.equal(canonical({ set: new Set([b, a]), z: [a] }));
+    });
+    
+    it('cyclic sets', () => {
+      const build = (reverse: boolean) => {
+        const root: any = { name: 'root' };
+        const items = [{ root }, { id: 2 }];
+        root.set = new Set(reverse ? items.reverse() : items);
+        return root;
+      };
+      expect(canonical(build(false))).to.deep.equal(canonical(build(true)));
+      const value = standard.deserialize(canonical(build(false)));
+      expect([...value.set].find(item => item.root).root).to.equal(value);
+    });
+    
+    it('cyclic maps', () => {
+      const build = (keys: string[]) => {
+        const map = new Map<string, any>();
+        for (const key of keys) map.set(key, key === 'self' ? map : { id: 2 });
+        return map;
+      };
+      expect(canonical(build(['self', 'other']))).to.deep.equal(canonical(build(['other', 'self'])));
+      const value = standard.deserialize(canonical(build(['self', 'other'])));
+      expect(value.get('self')).to.equal(value);
+    });
+    
+    it('normalizes NaN', () => {
+      const nan = new Float64Array(new Uint32Array([1, 0x7FF00000]).buffer)[0];
+      expect(nan).to.be.NaN;
+      expect(canonical([nan])).to.deep.equal(canonical([NaN]));
+      expect(standard.serialize([nan], { compact: true, canonical: true })).to.deep.equal(standard.serialize([NaN], { compact: true, canonical: true }));
+      expect(standard.serialize([nan])).to.not.deep.equal(standard.serialize([NaN]));
+    });
+  });
+  
   describe('custom', () => {
     it('override', () => {
       let writeCalled = false;
@@ -363,6 +813,178 @@ describe('standard serde', () => {
       expect(serde.deserialize(bytes)).to.deep.equal(ref);
     });
     
+    describe('versioned', () => {
+      class Foo {
+        [SERDE] = 'test::versioned';
+        constructor(public name: string, public tags: string[] = [], public id = 0) {}
+      }
+      
+      const v0 = SerdeAlter().standard()
+        .setSimple('test::versioned',
+          ({ name }: Foo, data) => data({ name }),
+          ({ name }): Foo => new Foo(name),
+        );
+      
+      const v2 = SerdeAlter().standard()
+        .setSimple('test::versioned',
+          ({ name, tags, id }: Foo, data) => data({ name, tags, id }),
+          ({ name, tags, id }, deref): Foo => {
+            const foo = new Foo(name, [], id);
+            deref(tags, tags => { foo.tags = tags });
+            return foo;
+          },
+          { version: 2 },
+        )
+        .migrate('test::versioned', 0, data => ({ ...data, tags: ['legacy'] }))
+        .migrate('test::versioned', 1, data => ({ ...data, id: 42 }));
+      
+      it('migrates old payloads', () => {
+        const bytes = v0.serialize(new Foo('foo'));
+        expect(v2.deserialize(bytes)).to.deep.equal(new Foo('foo', ['legacy'], 42));
+      });
+      
+      it('round trip', () => {
+        const ref = new Foo('foo', ['a', 'b'], 69);
+        const bytes = v2.serialize(ref);
+        expect(v2.deserialize(bytes)).to.deep.equal(ref);
+      });
+      
+      it('rejects newer versions', () => {
+        const bytes = v2.serialize(new Foo('foo'));
+        expect(() => v0.deserialize(bytes)).to.throw('Payload of subprotocol test::versioned has version 2, but only up to 0 is known');
+      });
+      
+      it('passes version to deserializer', () => {
+        const versions: number[] = [];
+        const serde = SerdeAlter().standard()
+          .set('test::byte',
+            (_, writer, value: number) => { writer.writeByte(value) },
+            (_, reader, version) => {
+              versions.push(version);
+              return reader.readByte();
+            },
+            { version: 3 },
+          );
+        const bytes = serde.serializeAs('test::byte', 42).compress().buffer;
+        expect(bytes.length).to.equal(22); // 8B refs header, 1B ref retarget, 4B versioned tag, 4B hash, 4B version, 1B byte
+        expect(serde.deserialize(bytes)).to.equal(42);
+        expect(versions).to.deep.equal([3]);
+      });
+    });
+    
+    describe('explicit IDs', () => {
+      class Foo {
+        [SERDE] = 'test::explicit-id';
+        constructor(public value: number) {}
+      }
+      
+      const serde = SerdeAlter().standard()
+        .set('test::explicit-id',
+          (_, writer, { value }: Foo) => { writer.writeByte(value) },
+          (_, reader) => new Foo(reader.readByte()),
+          { id: 0x42 },
+        );
+      
+      it('round trip', () => {
+        const bytes = serde.serialize(new Foo(7));
+        expect(new Reader(bytes, 9).readUInt32()).to.equal(0x42);
+        expect(serde.deserialize(bytes)).to.deep.equal(new Foo(7));
+        expect(serde.protocolFromHash(0x42)).to.equal('test::explicit-id');
+      });
+      
+      it('versioned', () => {
+        const versioned = SerdeAlter().standard()
+          .set('test::explicit-id',
+            (_, writer, { value }: Foo) => { writer.writeByte(value) },
+            (_, reader) => new Foo(reader.readByte()),
+            { id: 0x42, version: 1 },
+          );
+        const bytes = versioned.serialize(new Foo(7));
+        expect(new Reader(bytes, 13).readUInt32()).to.equal(0x42);
+        expect(versioned.deserialize(bytes)).to.deep.equal(new Foo(7));
+      });
+      
+      it('clashes', () => {
+        expect(() => serde.set('test::other', () => {}, () => {}, { id: 0x42 })).to.throw('Subprotocol hash clash between "test::explicit-id" and "test::other" (0x42)');
+        expect(() => serde.set('test::other', () => {}, () => {}, { id: 0xFFFFFFFF })).to.throw('Subprotocol ID of "test::other" clashes with a reserved tag');
+        expect(() => serde.set('test::other', () => {}, () => {}, { id: -1 })).to.throw('Invalid ID of subprotocol test::other: -1');
+      });
+      
+      it('replaces ID', () => {
+        const serde = SerdeAlter().standard()
+          .set('test::replaced', () => {}, () => 1, { id: 1 })
+          .set('test::replaced', () => {}, () => 2, { id: 2, force: true });
+        expect(() => serde.protocolFromHash(1)).to.throw('Failed subprotocol hash lookup: 1');
+        expect(serde.protocolFromHash(2)).to.equal('test::replaced');
+      });
+      
+      it('registry', () => {
+        const registry = serde.registry();
+        expect(registry[0]).to.deep.equal({ subprotocol: 'test::explicit-id', id: 0x42, explicit: true, version: 0 });
+        expect(registry.find(entry => entry.subprotocol === 'string')).to.deep.include({ explicit: false, version: 0 });
+        expect(registry.map(entry => entry.id)).to.deep.equal(registry.map(entry => entry.id).sort((a, b) => a - b));
+      });
+    });
+    
+    describe('variants', () => {
+      interface Circle { [SERDE]: 'test::shape'; [SUBSERDE]: 'circle'; radius: number }
+      interface Rect { [SERDE]: 'test::shape'; [SUBSERDE]: 'rect'; width: number; height: number }
+      const circle = (radius: number): Circle => ({ [SERDE]: 'test::shape', [SUBSERDE]: 'circle', radius });
+      const rect = (width: number, height: number): Rect => ({ [SERDE]: 'test::shape', [SUBSERDE]: 'rect', width, height });
+      
+      const serde = SerdeAlter().standard()
+        .setVariant('test::shape', 'circle',
+          (_, writer, { radius }: Circle) => { writer.writeNumber(radius) },
+          (_, reader) => circle(reader.readNumber()),
+        )
+        .setVariant('test::shape', 'rect',
+          (_, writer, { width, height }: Rect) => {
+            writer.writeNumber(width);
+            writer.writeNumber(height);
+          },
+          (_, reader) => rect(reader.readNumber(), reader.readNumber()),
+        );
+      
+      it('dispatches', () => {
+        const ref = [circle(1), rect(2, 3)];
+        const value = serde.deserialize(serde.serialize(ref));
+        expect(value).to.deep.equal(ref);
+        expect(value[0][SUBSERDE]).to.equal('circle');
+        expect(value[1][SUBSERDE]).to.equal('rect');
+      });
+      
+      it('layout', () => {
+        const bytes = serde.serializeAs('test::shape', circle(1)).compress().buffer;
+        expect(bytes.length).to.equal(25); // 8B refs header, 1B ref retarget, 4B hash, 4B variant hash, 8B radius
+        expect(serde.deserializeAs('test::shape', bytes)).to.deep.equal(circle(1));
+      });
+      
+      it('types', () => {
+        const value = serde.deserialize(serde.serialize(circle(1)));
+        if (value[SUBSERDE] === 'circle')
+          expect(value.radius).to.equal(1);
+      });
+      
+      it('patchSubserde', () => {
+        const ref = patchSubserde(patchSerde({ radius: 2 }, 'test::shape'), 'circle');
+        expect(serde.deserialize(serde.serialize(ref))).to.deep.equal(circle(2));
+      });
+      
+      it('unknown variants', () => {
+        const ref = { ...circle(1), [SUBSERDE]: 'triangle' };
+        expect(() => serde.serialize(ref)).to.throw('No such variant of subprotocol test::shape: triangle');
+        
+        const other = SerdeAlter().standard()
+          .setVariant('test::shape', 'rect', () => {}, () => rect(0, 0));
+        expect(() => other.deserialize(serde.serialize(circle(1)))).to.throw('Failed variant hash lookup of subprotocol test::shape');
+      });
+      
+      it('conflicts', () => {
+        expect(() => SerdeAlter().standard().setVariant('string', 'foo', () => {}, () => '')).to.throw('Subprotocol with name already registered: string');
+        expect(() => serde.setVariant('test::shape', 'circle', () => {}, () => circle(0))).to.throw('Variant of subprotocol test::shape already registered: circle');
+      });
+    });
+    
     it('context', () => {
       class Foo {
         [SERDE] = 'test::custom-context';
@@ -0,0 +1,127 @@
+import { expect } from 'chai'
+import { SerdeAlter } from '../src/protocol'
+import { s } from '../src/schema'
+import { SERDE } from '../src/types'
+
+class Pair {
+  [SERDE] = 'test::pair' as const;
+  constructor(public left: any, public right: any) {}
+}
+
+class Bag {
+  [SERDE] = 'test::bag' as const;
+  constructor(public items: Set<any>) {}
+}
+
+describe('verify serde', () => {
+  it('passes correct subprotocols', () => {
+    const serde = SerdeAlter().standard()
+      .set('test::pair',
+        (ctx, writer, value: Pair) => {
+          ctx.serde.serialize(ctx.ref(value.left), writer, ctx);
+          ctx.serde.serialize(ctx.ref(value.right), writer, ctx);
+        },
+        (ctx, reader) => {
+          const pair = new Pair(undefined, undefined);
+          ctx.deref(ctx.serde.deserialize(reader, ctx), left => pair.left = left);
+          ctx.deref(ctx.serde.deserialize(reader, ctx), right => pair.right = right);
+          return pair;
+        });
+    const shared = { name: 'shared' };
+    const pair: any = new Pair(shared, [shared, new Map([[1, new Date(0)]])]);
+    pair.right.push(pair);
+
+    for (const options of [{}, { compact: true }, { canonical: true }]) {
+      const { value, errors } = serde.verify(pair, options);
+      expect(errors).to.deep.equal([]);
+      expect(value).to.be.instanceOf(Pair);
+    }
+    expect(serde.verify({ views: [new Uint16Array(4), new Uint16Array(4)] }).errors).to.deep.equal([]);
+  });
+
+  it('detects mismatching reads', () => {
+    const serde = SerdeAlter().standard()
+      .set('test::pair',
+        (ctx, writer, value: Pair) => {
+          writer.writeNumber(value.left);
+          writer.writeNumber(value.right);
+        },
+        (ctx, reader) => new Pair(reader.readNumber(), undefined));
+    const { errors } = serde.verify({ pair: new Pair(1, 2), after: 'text' });
+    expect(errors[0]).to.match(/^\$: Subprotocol test::pair wrote 16 bytes at offset \d+, but read 8$/);
+  });
+
+  it('detects missing references', () => {
+    const serde = SerdeAlter().standard()
+      .set('test::pair',
+        (ctx, writer, value: Pair) => {
+          ctx.serde.serialize(value.left, writer, ctx);
+          ctx.serde.serialize(value.right, writer, ctx);
+        },
+        (ctx, reader) => new Pair(ctx.serde.deserialize(reader, ctx), ctx.serde.deserialize(reader, ctx)));
+    const shared = { name: 'shared' };
+    expect(serde.verify(new Pair(shared, shared)).errors).to.deep.equal(['$.right: Expected the same object as $.left (missing ctx.ref?)']);
+
+    const cyclic: any = new Pair(1, undefined);
+    cyclic.right = cyclic;
+    expect(serde.verify(cyclic).errors[0]).to.match(/^\$: Failed to serialize: .*\(missing ctx\.ref of a cyclic value\?\)$/);
+  });
+
+  it('detects missing derefs', () => {
+    const serde = SerdeAlter().standard()
+      .set('test::bag',
+        (ctx, writer, value: Bag) => {
+          writer.writeUInt32(value.items.size);
+          value.items.forEach(item => ctx.serde.serialize(ctx.ref(item), writer, ctx));
+        },
+        (ctx, reader) => {
+          const items = new Set();
+          for (let size = reader.readUInt32(); size; --size)
+            items.add(ctx.serde.deserialize(reader, ctx));
+          return new Bag(items);
+        });
+    expect(serde.verify(new Bag(new Set([1, { a: 1 }]))).errors).to.deep.equal(['$.items.<item 1>: Unresolved Reference #1 (missing deref?)']);
+  });
+
+  it('reports differences', () => {
+    const serde = SerdeAlter().standard()
+      .setSimple('test::pair', (value: Pair) => ({ left: value.left }), data => new Pair(data.left, 'default'));
+    expect(serde.verify({ pair: new Pair(1, 'right'), list: [1, 2] }).errors).to.deep.equal(['$.pair.right: Expected "right", got "default"']);
+    expect(serde.verify(new Map([[new Pair(NaN, 'default'), -0]])).errors).to.deep.equal([]);
+  });
+
+  it('fuzzes standard subprotocols', function() {
+    this.timeout(10000);
+    const serde = SerdeAlter().standard()
+      .setSchema('test::point', s.struct({ x: s.float64(), y: s.optional(s.string()) }));
+    const report = serde.fuzz({ seed: 42, runs: 20 });
+    expect(report.failures).to.deep.equal([]);
+    expect(report.skipped).to.deep.equal([]);
+  });
+
+  it('fuzzes custom subprotocols', () => {
+    const serde = SerdeAlter().standard()
+      .set('test::bag',
+        (ctx, writer, value: Bag) => {
+          writer.writeUInt32(value.items.size);
+          value.items.forEach(item => ctx.serde.serializeAs('string', JSON.stringify(item), writer, ctx));
+        },
+        (ctx, reader) => {
+          const items = new Set();
+          // throws a SyntaxError on corrupt payloads
+          for (let size = reader.readUInt32(); size; --size)
+            items.add(JSON.parse(ctx.serde.deserializeAs('string', reader, ctx)));
+          return new Bag(items);
+        })
+      .set('test::opaque', () => {}, () => ({}));
+
+    const report = serde.fuzz({
+      seed: 7,
+      runs: 20,
+      generators: { 'test::bag': random => new Bag(new Set(Array.from({ length: random.int(0, 3) }, () => random.string(4)))) },
+    });
+    expect(report.skipped).to.deep.equal(['test::opaque']);
+    expect(report.failures.some(({ kind }) => kind === 'verify')).to.be.false;
+    expect(report.failures.some(({ kind }) => kind === 'mutation')).to.be.true;
+  });
+});
@@ -0,0 +1,89 @@
+import { expect } from 'chai'
+import Serde, { SerdeAlter } from '../src/protocol'
+import Reader from '../src/reader'
+import Writer, { WriterPool } from '../src/writer'
+
+describe('writer', () => {
+  const serde = SerdeAlter().standard();
+  const message = { id: 42, kind: 'tick', price: 1.5, tags: ['a', 'b'] };
+
+  it('writes at an offset', () => {
+    const memory = new Uint8Array(64).fill(0xAA);
+    const writer = new Writer({ target: memory.subarray(3) });
+    writer.writeUInt32(0x01020304).writeNumber(-2.5).writeFloat32(NaN);
+    expect([...memory.subarray(0, 7)]).to.deep.equal([0xAA, 0xAA, 0xAA, 4, 3, 2, 1]);
+
+    const reader = new Reader(memory.subarray(3, 3 + writer.size));
+    expect(reader.readUInt32()).to.equal(0x01020304);
+    expect(reader.readNumber()).to.equal(-2.5);
+    expect(reader.readFloat32()).to.be.NaN;
+    expect(() => writer.writeBytes(new Uint8Array(64))).to.throw('Target of 61 bytes is too small, at least 80 bytes are required');
+  });
+
+  it('serializeInto', () => {
+    const memory = new Uint8Array(new SharedArrayBuffer(256));
+    const length = serde.serializeInto(message, memory, 16);
+    expect(memory.slice(16, 16 + length)).to.deep.equal(serde.serialize(message));
+    expect(serde.deserialize(memory.subarray(16, 16 + length))).to.deep.equal(message);
+
+    for (const options of [{ compact: true }, { compression: 'deflate' as const, checksum: 'crc32' as const }]) {
+      const length = serde.serializeInto(message, memory, 7, options);
+      expect(memory.slice(7, 7 + length)).to.deep.equal(serde.serialize(message, options));
+    }
+    expect(() => serde.serializeInto(message, new Uint8Array(16))).to.throw(/^Target of 16 bytes is too small/);
+  });
+
+  it('pools writers', () => {
+    const pool = new WriterPool({ size: 1 });
+    const writer = pool.acquire();
+    writer.compact = true;
+    writer.writeUInt32(1);
+    pool.release(writer);
+    pool.release(writer);
+    pool.release(new Writer());
+
+    const reused = pool.acquire();
+    expect(reused).to.equal(writer);
+    expect(reused).to.include({ size: 0, cursor: 0, compact: false });
+    expect(pool.acquire()).not.to.equal(writer);
+
+    const big = new Writer({ size: 2 << 20 });
+    pool.release(big);
+    expect(pool.acquire()).not.to.equal(big);
+  });
+
+  it('returns copies of pooled writers', () => {
+    const first = serde.serialize('first');
+    const second = serde.serialize({ second: true }, { compact: true });
+    expect(first.buffer).not.to.equal(second.buffer);
+    expect(serde.deserialize(first)).to.equal('first');
+    expect(serde.deserialize(second, { compact: true })).to.deep.equal({ second: true });
+    expect(serde.serialize('first')).to.deep.equal(first);
+  });
+
+  it('reuses buffers', () => {
+    const count = 100;
+    const resizes = (callback: () => void) => {
+      const session = Serde.startProfiling();
+      for (let i = 0; i < count; ++i) callback();
+      return session.stop().resizes;
+    };
+
+    const pool = Serde.writerPool;
+    try {
+      Serde.writerPool = undefined;
+      const unpooled = resizes(() => serde.serialize(message));
+      Serde.writerPool = new WriterPool();
+      const pooled = resizes(() => serde.serialize(message));
+      const memory = new Uint8Array(1024);
+      const into = resizes(() => serde.serializeInto(message, memory));
+
+      // fresh Writers grow their buffer for every message, pooled Writers only for the first
+      expect(unpooled).to.be.at.least(count);
+      expect(pooled).to.be.at.most(unpooled / count);
+      expect(into).to.equal(0);
+    } finally {
+      Serde.writerPool = pool;
+    }
+  });
+});